@@ -11,13 +11,48 @@
 
 'use strict';
 
+import js from '@eslint/js';
+import stylistic from '@stylistic/eslint-plugin';
+import typescriptPlugin from '@typescript-eslint/eslint-plugin';
+import jasminePlugin from 'eslint-plugin-jasmine';
+import builtinGlobals from 'globals';
+import type { ESLint, Linter } from 'eslint';
+
+import packageJSON from '../package.json';
+
+/*
+ * Flat configurations must reference the plugin object itself, and ESLint
+ * refuses to register two different objects under the same plugin name. We
+ * import our own module so the object in our configs is the same one
+ * consumers import.
+ */
+import * as beanbagPlugin from './index';
+
 
 /*
  * A string regex pattern used for `case` fall-through markers in `switch`.
  *
- * See `lines-around-comment` and `no-fallthrough` rules below.
+ * See `lines-around-comment` and `@beanbag/fallthrough-comment` rules below.
+ */
+const noFallThroughPattern = '[Ff]alls?[\\s-]?through';
+
+
+/*
+ * A string regex pattern used for translator comments.
+ *
+ * These must directly precede a gettext call, which may be in the middle of
+ * an expression. See `lines-around-comment` and
+ * `@beanbag/translator-comments` rules below.
+ */
+const translatorCommentPattern = '^[\\s*]*Translators:';
+
+
+/*
+ * The default maximum line length.
+ *
+ * This can be changed for flat configurations using `createConfig()`.
  */
-const noFallThroughPattern = '[Ff]alls?\\s?through';
+const defaultMaxLineLength = 79;
 
 
 /*
@@ -27,12 +62,13 @@ const noFallThroughPattern = '[Ff]alls?\\s?through';
  * trailing commas, for example, are not allowed by default. Those rules are
  * enabled specifically for ES6/TypeScript files.
  */
-const es5Config = {
+const es5Config: Linter.LegacyConfig = {
     extends: [
         'eslint:recommended',
     ],
 
     plugins: [
+        '@beanbag',
         '@stylistic',
     ],
 
@@ -85,19 +121,13 @@ const es5Config = {
         /*
          * Allow fall-through on `case` statements in a `switch`.
          *
-         * This is normally disabled by the recommended ESLint rules. We enable
-         * it, but only if the `case` is empty or contains a comment with the
-         * regex `/falls?\s?through/i`.
+         * This is replaced by `@beanbag/fallthrough-comment`, which requires
+         * the same marker comments, but can suggest inserting them and
+         * normalizes their spelling.
          *
          * https://eslint.org/docs/latest/rules/no-fallthrough
          */
-        'no-fallthrough': [
-            'error',
-            {
-                allowEmptyCase: true,
-                commentPattern: noFallThroughPattern,
-            },
-        ],
+        'no-fallthrough': 'off',
 
         /*
          * Allow Object.prototype builtins, like `.hasOwnProperty()`.
@@ -125,6 +155,261 @@ const es5Config = {
             },
         ],
 
+        /*
+         * Disallow inverse comparisons where the variable is on the right-hand
+         * side.
+         *
+         * For example:
+         *
+         *     if (myVar === 1) { ... }
+         *
+         * Not:
+         *
+         *     if (1 === myVar) { ... }
+         */
+        'yoda': [
+            'error',
+            'never',
+        ],
+
+        /*
+         * Require handlers in a Backbone view's `events` hash to be methods
+         * on the view, and disallow empty selectors and duplicate keys.
+         *
+         * For example:
+         *
+         *     Backbone.View.extend({
+         *         events: {
+         *             'click .save-button': '_onSaveClicked',
+         *         },
+         *
+         *         _onSaveClicked() { ... },
+         *     });
+         *
+         * Not:
+         *
+         *     Backbone.View.extend({
+         *         events: {
+         *             'click .save-button': '_onSaveClick',
+         *         },
+         *
+         *         _onSaveClicked() { ... },
+         *     });
+         */
+        '@beanbag/backbone-events': 'warn',
+
+        /*
+         * Prefer `this.listenTo()` over `on()` or `bind()` on other objects
+         * in Backbone views and models, so handlers are unbound when the
+         * view is removed.
+         *
+         * Calls on `this`, calls on jQuery objects, and calls with a
+         * matching `off()` in `remove()` are allowed.
+         *
+         * For example:
+         *
+         *     this.listenTo(this.model, 'change', this.render);
+         *
+         * Not:
+         *
+         *     this.model.on('change', this.render, this);
+         */
+        '@beanbag/backbone-prefer-listento': 'warn',
+
+        /*
+         * Reflow comment paragraphs that run past the maximum line length.
+         *
+         * Indented code samples, bullet lists, lines with URLs, and
+         * docstring section headers are kept intact.
+         *
+         * For example:
+         *
+         *     /*
+         *      * This is a comment that has been wrapped to fit within the
+         *      * maximum line length.
+         *      *\/
+         */
+        '@beanbag/comment-wrap': [
+            'warn',
+            {
+                width: defaultMaxLineLength,
+            },
+        ],
+
+        /*
+         * Warn if exported functions, classes, and methods lack a docstring,
+         * or if the docstring doesn't match the code.
+         *
+         * Docstrings must document each argument in `Args:`, and must have
+         * a `Returns:` section if the function returns a value.
+         *
+         * For example:
+         *
+         *     /**
+         *      * Return the sum of two numbers.
+         *      *
+         *      * Args:
+         *      *     a (number):
+         *      *         The first number.
+         *      *
+         *      *     b (number):
+         *      *         The second number.
+         *      *
+         *      * Returns:
+         *      *     number:
+         *      *     The sum of the numbers.
+         *      *\/
+         *     export function add(a, b) {
+         *         return a + b;
+         *     }
+         *
+         * Not:
+         *
+         *     export function add(a, b) {
+         *         return a + b;
+         *     }
+         */
+        '@beanbag/docstrings': 'warn',
+
+        /*
+         * Require a marker comment on fall-through `case` statements in a
+         * `switch`, unless the `case` is empty.
+         *
+         * Variant spellings of the marker are rewritten to "Fall through.".
+         *
+         * For example:
+         *
+         *     switch (a) {
+         *         case 1:
+         *             foo();
+         *             // Fall through.
+         *
+         *         case 2:
+         *         case 3:
+         *             break;
+         *     }
+         *
+         * Not:
+         *
+         *     switch (a) {
+         *         case 1:
+         *             foo();
+         *
+         *         case 2:
+         *             break;
+         *     }
+         */
+        '@beanbag/fallthrough-comment': 'error',
+
+        /*
+         * Require a literal context for pgettext() and npgettext().
+         *
+         * For example:
+         *
+         *     pgettext('verb', 'Close')
+         *
+         * Not:
+         *
+         *     pgettext(context, 'Close')
+         *     pgettext('Close')
+         */
+        '@beanbag/i18n-context': 'error',
+
+        /*
+         * Require interpolate() placeholders to match the arguments.
+         *
+         * Positional (`%s`) placeholders require an array. Named
+         * (`%(name)s`) placeholders require an object and `true` for
+         * `named`.
+         *
+         * For example:
+         *
+         *     interpolate(gettext('%s of %s'), [current, total])
+         *     interpolate(gettext('%(count)s files'), {count: 1}, true)
+         *
+         * Not:
+         *
+         *     interpolate(gettext('%s of %s'), [current])
+         *     interpolate(gettext('%(count)s files'), {count: 1})
+         */
+        '@beanbag/i18n-interpolate': 'error',
+
+        /*
+         * Require translatable strings to be string literals.
+         *
+         * Strings that aren't literals can't be extracted by
+         * `makemessages`.
+         *
+         * For example:
+         *
+         *     gettext('Save changes')
+         *
+         * Not:
+         *
+         *     gettext(label)
+         *     gettext('Save ' + 'changes')
+         */
+        '@beanbag/i18n-literal-strings': 'error',
+
+        /*
+         * Require ngettext() and npgettext() to receive all arguments.
+         *
+         * For example:
+         *
+         *     ngettext('%s file', '%s files', count)
+         *
+         * Not:
+         *
+         *     ngettext('%s file', count)
+         */
+        '@beanbag/i18n-plural-args': 'error',
+
+        /*
+         * Require variables and properties holding jQuery objects to be
+         * prefixed with `$`, and only those.
+         *
+         * For example:
+         *
+         *     const $button = this.$('.save-button');
+         *
+         * Not:
+         *
+         *     const button = this.$('.save-button');
+         */
+        '@beanbag/jquery-naming': 'warn',
+
+        /*
+         * Enforce a maximum line length, except for translatable strings
+         * or lines with long URLs.
+         *
+         * String literals passed to gettext functions and `interpolate()`
+         * don't count toward the length of a line, but the rest of the
+         * line does.
+         */
+        '@beanbag/max-len': [
+            'error',
+            {
+                code: defaultMaxLineLength,
+            },
+        ],
+
+        /*
+         * Require a starred block comment describing the module at the
+         * start of each file, before `'use strict';` and imports. A license
+         * header may come first.
+         *
+         * Unit tests, Storybook stories, and configuration files are exempt.
+         *
+         * For example:
+         *
+         *     /*
+         *      * Views for managing review requests.
+         *      *\/
+         *
+         *     'use strict';
+         */
+        '@beanbag/module-header': 'warn',
+
         /*
          * Warn if keys aren't sorted in objects.
          *
@@ -132,6 +417,9 @@ const es5Config = {
          * can be separated by blank lines. Sorting then happens within each
          * group.
          *
+         * This is our own version of `sort-keys`, which can autofix the
+         * order of keys within each group.
+         *
          * For example:
          *
          *     var o = {
@@ -155,7 +443,7 @@ const es5Config = {
          *
          * https://eslint.org/docs/latest/rules/sort-keys
          */
-        'sort-keys': [
+        '@beanbag/sort-keys': [
             'warn',
             'asc',
             {
@@ -164,21 +452,49 @@ const es5Config = {
         ],
 
         /*
-         * Disallow inverse comparisons where the variable is on the right-hand
-         * side.
+         * Require two blank lines between top-level declarations.
+         *
+         * Consecutive variable declarations may be grouped without blank
+         * lines. The module header comment and `'use strict';` are followed
+         * by one blank line, and imports by two.
          *
          * For example:
          *
-         *     if (myVar === 1) { ... }
+         *     import { Foo } from './foo';
+         *
+         *
+         *     const a = 1;
+         *     const b = 2;
+         *
+         *
+         *     function foo() {
+         *     }
          *
          * Not:
          *
-         *     if (1 === myVar) { ... }
+         *     import { Foo } from './foo';
+         *
+         *     const a = 1;
+         *     function foo() {
+         *     }
          */
-        'yoda': [
-            'error',
-            'never',
-        ],
+        '@beanbag/top-level-spacing': 'warn',
+
+        /*
+         * Require translator comments for gettext strings with placeholders
+         * or single words, and warn about translator comments that won't be
+         * extracted.
+         *
+         * For example:
+         *
+         *     /* Translators: The "Close" button on a dialog. *\/
+         *     const label = gettext('Close');
+         *
+         * Not:
+         *
+         *     const label = gettext('Close');
+         */
+        '@beanbag/translator-comments': 'warn',
 
         /*
          * Require space around `=>`.
@@ -685,24 +1001,11 @@ const es5Config = {
                  *
                  * We actually set this one to avoid issues with the
                  * "falls through" regex for `case` statements in `switch`
-                 * (see the `no-fallthrough` rule).
+                 * (see the `@beanbag/fallthrough-comment` rule), and with
+                 * translator comments placed directly before gettext calls.
                  */
-                ignorePattern: noFallThroughPattern,
-            },
-        ],
-
-        /*
-         * Enforce a maximum line length, except for gettext()-localized
-         * strings or lines with long URLs.
-         *
-         * https://v4.eslint.style/rules/default/max-len
-         */
-        '@stylistic/max-len': [
-            'error',
-            {
-                code: 79,
-                ignorePattern: 'gettext\\(.*',
-                ignoreUrls: true,
+                ignorePattern:
+                    `${noFallThroughPattern}|${translatorCommentPattern}`,
             },
         ],
 
@@ -1029,7 +1332,7 @@ const es5Config = {
  * If using the "recommended" configuration set, this will apply to all
  * filenames with *.es6.js or *.ts patterns.
  */
-const es6Config = {
+const es6Config: Linter.LegacyConfig = {
     env: {
         es2021: true,
     },
@@ -1043,6 +1346,10 @@ const es6Config = {
         dedent: 'readonly',
     },
 
+    plugins: [
+        '@beanbag',
+    ],
+
     rules: {
         /*
          * Require `const` or `let`, not `var`.
@@ -1074,6 +1381,71 @@ const es6Config = {
                 avoidEscape: true,
             },
         ],
+
+        /*
+         * Require imports to be grouped, with a blank line between groups,
+         * and names within each import to be sorted.
+         *
+         * The groups are Node built-in modules, third-party packages,
+         * `@beanbag/*` packages, and relative imports. Projects with their
+         * own scope can add a group for it using the `groups` option.
+         *
+         * For example:
+         *
+         *     import * as fs from 'node:fs';
+         *
+         *     import { Foo, bar } from 'some-package';
+         *
+         *     import { spina } from '@beanbag/spina';
+         *
+         *     import { MyView } from './myView';
+         *
+         * Not:
+         *
+         *     import { MyView } from './myView';
+         *     import { bar, Foo } from 'some-package';
+         *     import * as fs from 'node:fs';
+         */
+        '@beanbag/import-order': 'warn',
+
+        /*
+         * Require multi-line template literals to be tagged with `dedent`,
+         * and `dedent` to be used correctly.
+         *
+         * `dedent` must be used as a tag, the lines of the template must be
+         * indented consistently and past the line the template starts on,
+         * and single-line templates don't need it.
+         *
+         * For example:
+         *
+         *     const html = dedent`
+         *         <div>${_.escape(name)}</div>
+         *     `;
+         *
+         * Not:
+         *
+         *     const html = `
+         *         <div>${_.escape(name)}</div>
+         *     `;
+         *     const label = dedent('Name');
+         */
+        '@beanbag/dedent': 'warn',
+
+        /*
+         * Require values interpolated into template literals containing
+         * HTML to be escaped with `_.escape()`, or marked as trusted with a
+         * comment.
+         *
+         * For example:
+         *
+         *     `<span>${_.escape(name)}</span>`
+         *     `<div>${/* trusted *\/ html}</div>`
+         *
+         * Not:
+         *
+         *     `<span>${name}</span>`
+         */
+        '@beanbag/no-unescaped-html-interpolation': 'error',
     },
 };
 
@@ -1087,7 +1459,7 @@ const es6Config = {
  * If using the "recommended" configuration set, this will apply to all
  * filenames with a *.ts pattern.
  */
-const typescriptConfig = {
+const typescriptConfig: Linter.LegacyConfig = {
     extends: [
         'plugin:@beanbag/es6',
         'plugin:@typescript-eslint/recommended',
@@ -1096,11 +1468,31 @@ const typescriptConfig = {
     parser: '@typescript-eslint/parser',
 
     plugins: [
+        '@beanbag',
         '@stylistic',
         '@typescript-eslint',
     ],
 
     rules: {
+        /*
+         * Require Spina classes to be decorated with `@spina`, and Backbone
+         * prototype attributes to be static fields.
+         *
+         * For example:
+         *
+         *     @spina
+         *     class MyView extends BaseView {
+         *         static className = 'my-view';
+         *     }
+         *
+         * Not:
+         *
+         *     class MyView extends BaseView {
+         *         className = 'my-view';
+         *     }
+         */
+        '@beanbag/spina': 'error',
+
         /*
          * Warn if using `var self = this`.
          *
@@ -1112,31 +1504,118 @@ const typescriptConfig = {
 };
 
 
-/**
- * Rules for JSX files.
+/*
+ * Type-aware rules for TypeScript codebases.
  *
- * This simply enables JSX parsing for supported JSX file extensions.
+ * This builds upon the TypeScript rules to add rules that use type
+ * information from the TypeScript compiler. These catch mistakes with
+ * promises and conditions that the syntax alone can't reveal.
  *
- * This is meant to be mixed in with a JavaScript configuration.
+ * Type information is provided through the typescript-eslint project
+ * service, which finds the nearest `tsconfig.json` for each file. This is
+ * considerably slower than the other configurations, so it's opt-in.
  */
-const jsxConfig = {
+const typescriptStrictConfig: Linter.LegacyConfig = {
+    extends: [
+        'plugin:@beanbag/typescript',
+    ],
+
     parserOptions: {
-        'ecmaFeatures': {
-            'jsx': true,
-        },
+        projectService: true,
     },
-};
 
+    plugins: [
+        '@typescript-eslint',
+    ],
 
-/*
- * Rules for Jasmine codebases.
- *
- * This enables globals for Jasmine and Jasmine-Suites, and sets up a common
+    rules: {
+        /*
+         * Disallow awaiting values that aren't promises.
+         *
+         * This usually means a function was expected to be async but isn't,
+         * or that a promise-returning call was refactored away. Either way,
+         * the `await` misleads readers about what the code waits for.
+         */
+        '@typescript-eslint/await-thenable': 'error',
+
+        /*
+         * Require promises to be awaited, returned, or handled.
+         *
+         * A promise that's dropped on the floor swallows its errors, and
+         * code after it runs before it's finished. Promises that are
+         * intentionally left running can be marked with `void`.
+         *
+         * For example:
+         *
+         *     await this.model.save();
+         *     void this.prefetch();
+         *
+         * Not:
+         *
+         *     this.model.save();
+         */
+        '@typescript-eslint/no-floating-promises': 'error',
+
+        /*
+         * Disallow promises where a non-promise value is expected.
+         *
+         * This catches conditions like `if (model.fetch())`, which are
+         * always true, and async functions passed where the return value is
+         * used synchronously.
+         *
+         * Async functions are allowed as function arguments and JSX
+         * attributes, since we commonly use them as event handlers (such as
+         * with `listenTo()` and `on()`), where the return value is ignored.
+         */
+        '@typescript-eslint/no-misused-promises': ['error', {
+            checksVoidReturn: {
+                arguments: false,
+                attributes: false,
+            },
+        }],
+
+        /*
+         * Warn about conditions that are always truthy or always falsy.
+         *
+         * These are often leftover checks from before code was typed, or
+         * signs that a type is wrong. This is a warning, to help port legacy
+         * code, which often has defensive checks the types don't account
+         * for.
+         *
+         * `while (true)` loops are still allowed.
+         */
+        '@typescript-eslint/no-unnecessary-condition': ['warn', {
+            allowConstantLoopConditions: 'only-allowed-literals',
+        }],
+    },
+};
+
+
+/**
+ * Rules for JSX files.
+ *
+ * This simply enables JSX parsing for supported JSX file extensions.
+ *
+ * This is meant to be mixed in with a JavaScript configuration.
+ */
+const jsxConfig: Linter.LegacyConfig = {
+    parserOptions: {
+        'ecmaFeatures': {
+            'jsx': true,
+        },
+    },
+};
+
+
+/*
+ * Rules for Jasmine codebases.
+ *
+ * This enables globals for Jasmine and Jasmine-Suites, and sets up a common
  * global we use for a scratch area in the DOM.
  *
  * This is meant to be mixed in with a JavaScript configuration.
  */
-const jasmineTestsConfig = {
+const jasmineTestsConfig: Linter.LegacyConfig = {
     env: {
         '@beanbag/jasmine-suites': true,
         jasmine: true,
@@ -1155,6 +1634,96 @@ const jasmineTestsConfig = {
     },
 
     rules: {
+        /*
+         * Don't require multi-line template literals to use `dedent`.
+         *
+         * Tests often compare against strings exactly, including their
+         * indentation. Any uses of `dedent` are still checked.
+         */
+        '@beanbag/dedent': [
+            'warn',
+            {
+                requireForMultiLine: false,
+            },
+        ],
+
+        /*
+         * Require specs and setup functions in ES6 and TypeScript test files
+         * to be async functions, instead of taking a `done` callback.
+         *
+         * A missed `done()` or an unhandled rejection hangs the suite until
+         * it times out, while an async function fails right away.
+         *
+         * For example:
+         *
+         *     it('Saves', async function() {
+         *         await model.save();
+         *     });
+         *
+         * Not:
+         *
+         *     it('Saves', function(done) {
+         *         model.save().then(done);
+         *     });
+         */
+        '@beanbag/jasmine-prefer-async': 'warn',
+
+        /*
+         * Require spy matchers like `toHaveBeenCalled()` to be used on spies
+         * created in the spec or its `beforeEach()` functions, and spies to
+         * be set up before the first `expect()` in a spec.
+         *
+         * For example:
+         *
+         *     spyOn(view, 'render');
+         *     view.update();
+         *
+         *     expect(view.render).toHaveBeenCalled();
+         *
+         * Not:
+         *
+         *     view.update();
+         *
+         *     expect(view.render).toHaveBeenCalled();
+         */
+        '@beanbag/jasmine-spy-usage': 'error',
+
+        /*
+         * Require each test file to contain one top-level `suite()`, named
+         * after the file's path, with all `describe()` blocks inside it.
+         *
+         * For example, in `rb/js/views/tests/FooViewTests.ts`:
+         *
+         *     suite('rb/views/FooView', function() {
+         *         describe('Rendering', function() {
+         *             ...
+         *         });
+         *     });
+         */
+        '@beanbag/jasmine-suite-structure': 'error',
+
+        /*
+         * Require specs to render into `$testsScratch`, which is emptied
+         * between specs, instead of the document body.
+         *
+         * For example:
+         *
+         *     view.$el.appendTo($testsScratch);
+         *
+         * Not:
+         *
+         *     view.$el.appendTo(document.body);
+         *     $('body').append(view.el);
+         */
+        '@beanbag/jasmine-use-scratch': 'error',
+
+        /*
+         * Don't require module header comments.
+         *
+         * The suite name describes what's being tested.
+         */
+        '@beanbag/module-header': 'off',
+
         /*
          * Don't require blank lines before `expect()`.
          *
@@ -1232,8 +1801,15 @@ const jasmineTestsConfig = {
  *
  * This is meant to be mixed in with a JavaScript configuration.
  */
-const storybookConfig = {
+const storybookConfig: Linter.LegacyConfig = {
     rules: {
+        /*
+         * Don't require module header comments.
+         *
+         * The Story's default export describes what the file contains.
+         */
+        '@beanbag/module-header': 'off',
+
         /*
          * Don't warn about sorting keys in objects.
          *
@@ -1241,17 +1817,674 @@ const storybookConfig = {
          * and sorting by key isn't necessarily it. Allow Stories to define
          * the flows they want.
          */
-        'sort-keys': 'off',
+        '@beanbag/sort-keys': 'off',
     },
 };
 
 
-export const configs = {
+/*
+ * Information identifying the plugin.
+ *
+ * ESLint uses this when caching and serializing configurations that
+ * reference the plugin.
+ */
+export const meta = {
+    name: packageJSON.name,
+    namespace: '@beanbag',
+    version: packageJSON.version,
+};
+
+
+/*
+ * Custom rules, referenced as `@beanbag/<rule-name>`.
+ *
+ * See `rules/index.ts`.
+ */
+export { rules } from './rules';
+
+
+/*
+ * The shape required of every environment.
+ *
+ * Legacy environments must wrap their globals in a `globals` key, or ESLint
+ * silently ignores them. Typing the environments this way rejects any entry
+ * that isn't shaped correctly.
+ */
+interface BeanbagEnvironment extends ESLint.Environment {
+    globals: Linter.Globals;
+}
+
+
+/*
+ * Environments for the globals provided by libraries we commonly use.
+ *
+ * These are only used by legacy configurations. Flat configurations should
+ * use the `globals` export or the `flat/<environment>` configurations.
+ */
+export const environments: {
+    [name: string]: BeanbagEnvironment,
+} = {
+    'backbone': {
+        globals: {
+            Backbone: false,
+            _: false,
+        },
+    },
+
+    'django': {
+        globals: {
+            django: false,
+            gettext: false,
+            gettext_noop: false,
+            interpolate: false,
+            ngettext: false,
+            npgettext: false,
+            pgettext: false,
+        },
+    },
+
+    'djblets': {
+        globals: {
+            Djblets: false,
+        },
+    },
+
+    'jasmine-suites': {
+        globals: {
+            suite: false,
+        },
+    },
+
+    'reviewboard': {
+        globals: {
+            RB: false,
+        },
+    },
+};
+
+
+/*
+ * Globals for each environment.
+ *
+ * These can be merged into `languageOptions.globals` in a flat
+ * configuration. For example:
+ *
+ *     languageOptions: {
+ *         globals: {
+ *             ...beanbag.globals.backbone,
+ *             ...beanbag.globals.reviewboard,
+ *         },
+ *     },
+ */
+export const globals: {
+    [name: string]: Linter.Globals,
+} = Object.fromEntries(
+    Object.entries(environments)
+        .map(([name, env]) => [name, env.globals]));
+
+
+/*
+ * File patterns used for the flat configurations.
+ *
+ * These mirror the patterns used by the legacy "recommended" configuration,
+ * but are rooted with `**` so they match anywhere in the tree, as flat
+ * configurations require.
+ */
+const flatFilePatterns = {
+    /* All JavaScript and TypeScript files. */
+    all: [
+        '**/*.js',
+        '**/*.jsx',
+        '**/*.ts',
+        '**/*.tsx',
+    ],
+
+    /*
+     * JavaScript build configuration.
+     *
+     * The legacy configuration also listed `.babelrc`, but that's a JSON
+     * file, and flat configurations would attempt to parse it as JavaScript.
+     */
+    build: [
+        '**/rollup.config.js',
+    ],
+
+    /* ES6 JavaScript. */
+    es6: [
+        '**/*.es6.js',
+        '**/*.es6.jsx',
+    ],
+
+    /* Plain JavaScript. */
+    javascript: [
+        '**/*.js',
+        '**/*.jsx',
+    ],
+
+    /* JSX files. */
+    jsx: [
+        '**/*.jsx',
+        '**/*.tsx',
+    ],
+
+    /* Storybook Stories. */
+    stories: [
+        '**/*.stories.js',
+        '**/*.stories.jsx',
+        '**/*.stories.ts',
+        '**/*.stories.tsx',
+    ],
+
+    /* Jasmine Unit Tests. */
+    tests: [
+        '**/*Tests.es6.js',
+        '**/*Tests.es6.jsx',
+        '**/*Tests.js',
+        '**/*Tests.jsx',
+        '**/*Tests.ts',
+        '**/*Tests.tsx',
+    ],
+
+    /* TypeScript. */
+    typescript: [
+        '**/*.ts',
+        '**/*.tsx',
+    ],
+};
+
+
+/**
+ * Return a flat configuration for ES5 JavaScript.
+ *
+ * This is the flat equivalent of the `es5` configuration, with
+ * `eslint:recommended` merged in.
+ *
+ * Args:
+ *     files (Array of string):
+ *         The file patterns the configuration applies to.
+ *
+ *     maxLineLength (number, optional):
+ *         The maximum line length to enforce.
+ *
+ * Returns:
+ *     Array of Linter.Config:
+ *     The flat configuration.
+ */
+function buildES5FlatConfig(
+    files: string[],
+    maxLineLength: number = defaultMaxLineLength,
+): Linter.Config[] {
+    const [commentWrapSeverity, commentWrapOptions] =
+        es5Config.rules['@beanbag/comment-wrap'] as [Linter.RuleSeverity,
+                                                     object];
+    const [maxLenSeverity, maxLenOptions] =
+        es5Config.rules['@beanbag/max-len'] as [Linter.RuleSeverity, object];
+
+    return [{
+        files,
+        name: '@beanbag/es5',
+
+        languageOptions: {
+            ecmaVersion: 5,
+            sourceType: 'script',
+        },
+
+        plugins: {
+            '@beanbag': beanbagPlugin,
+            '@stylistic': stylistic,
+        },
+
+        rules: {
+            ...js.configs.recommended.rules,
+            ...es5Config.rules,
+            '@beanbag/comment-wrap': [
+                commentWrapSeverity,
+                {
+                    ...commentWrapOptions,
+                    width: maxLineLength,
+                },
+            ],
+            '@beanbag/max-len': [
+                maxLenSeverity,
+                {
+                    ...maxLenOptions,
+                    code: maxLineLength,
+                },
+            ],
+        },
+    }];
+}
+
+
+/**
+ * Return a flat configuration for ES6 JavaScript.
+ *
+ * This is the flat equivalent of the `es6` configuration.
+ *
+ * Args:
+ *     files (Array of string):
+ *         The file patterns the configuration applies to.
+ *
+ * Returns:
+ *     Array of Linter.Config:
+ *     The flat configuration.
+ */
+function buildES6FlatConfig(
+    files: string[],
+): Linter.Config[] {
+    return [{
+        files,
+        name: '@beanbag/es6',
+
+        languageOptions: {
+            ecmaVersion: 'latest',
+            globals: {
+                ...builtinGlobals.es2021,
+                ...es6Config.globals,
+            },
+            sourceType: 'script',
+        },
+
+        plugins: {
+            '@beanbag': beanbagPlugin,
+        },
+
+        rules: es6Config.rules,
+    }];
+}
+
+
+/**
+ * Return a flat configuration for TypeScript.
+ *
+ * This is the flat equivalent of the `typescript` configuration. Like that
+ * configuration, it includes the ES6 rules and the typescript-eslint
+ * recommended rules.
+ *
+ * Args:
+ *     files (Array of string):
+ *         The file patterns the configuration applies to.
+ *
+ * Returns:
+ *     Array of Linter.Config:
+ *     The flat configuration.
+ */
+function buildTypeScriptFlatConfig(
+    files: string[],
+): Linter.Config[] {
+    return [
+        ...buildES6FlatConfig(files),
+        ...(typescriptPlugin.configs['flat/recommended'] as Linter.Config[])
+            .map(config => ({
+                ...config,
+                files,
+            })),
+        {
+            files,
+            name: '@beanbag/typescript',
+
+            plugins: {
+                '@beanbag': beanbagPlugin,
+                '@stylistic': stylistic,
+            },
+
+            rules: typescriptConfig.rules,
+        },
+    ];
+}
+
+
+/**
+ * Return a flat configuration for type-aware TypeScript rules.
+ *
+ * This is the flat equivalent of the `typescript-strict` configuration. It
+ * only contains the type-aware additions, and is meant to be layered on top
+ * of the TypeScript configuration for the same files, which registers the
+ * parser and plugin.
+ *
+ * Args:
+ *     files (Array of string):
+ *         The file patterns the configuration applies to.
+ *
+ *     tsconfigRootDir (string, optional):
+ *         The directory containing the root ``tsconfig.json``. If not
+ *         provided, typescript-eslint uses the current directory.
+ *
+ * Returns:
+ *     Array of Linter.Config:
+ *     The flat configuration.
+ */
+function buildTypeScriptStrictFlatConfig(
+    files: string[],
+    tsconfigRootDir?: string,
+): Linter.Config[] {
+    return [{
+        files,
+        name: '@beanbag/typescript-strict',
+
+        languageOptions: {
+            parserOptions: {
+                ...typescriptStrictConfig.parserOptions,
+                ...(tsconfigRootDir === undefined
+                    ? {}
+                    : { tsconfigRootDir }),
+            },
+        },
+
+        rules: typescriptStrictConfig.rules,
+    }];
+}
+
+
+/**
+ * Return a flat configuration for JSX files.
+ *
+ * This is the flat equivalent of the `jsx` configuration.
+ *
+ * Args:
+ *     files (Array of string):
+ *         The file patterns the configuration applies to.
+ *
+ * Returns:
+ *     Array of Linter.Config:
+ *     The flat configuration.
+ */
+function buildJSXFlatConfig(
+    files: string[],
+): Linter.Config[] {
+    return [{
+        files,
+        name: '@beanbag/jsx',
+
+        languageOptions: {
+            parserOptions: jsxConfig.parserOptions,
+        },
+    }];
+}
+
+
+/**
+ * Return a flat configuration for Jasmine unit tests.
+ *
+ * This is the flat equivalent of the `jasmine` configuration.
+ *
+ * Args:
+ *     files (Array of string):
+ *         The file patterns the configuration applies to.
+ *
+ *     es6Files (Array of string, optional):
+ *         The file patterns for ES6 JavaScript files. Along with TypeScript
+ *         files, these are the test files that can use async functions.
+ *
+ * Returns:
+ *     Array of Linter.Config:
+ *     The flat configuration.
+ */
+function buildJasmineFlatConfig(
+    files: string[],
+    es6Files: string[] = flatFilePatterns.es6,
+): Linter.Config[] {
+    const preferAsyncSeverity =
+        jasmineTestsConfig.rules['@beanbag/jasmine-prefer-async'] as
+            Linter.RuleSeverity;
+    const suiteStructureSeverity =
+        jasmineTestsConfig.rules['@beanbag/jasmine-suite-structure'] as
+            Linter.RuleSeverity;
+
+    return [{
+        files,
+        name: '@beanbag/jasmine',
+
+        languageOptions: {
+            globals: {
+                ...builtinGlobals.jasmine,
+                ...globals['jasmine-suites'],
+                ...jasmineTestsConfig.globals,
+            },
+        },
+
+        plugins: {
+            jasmine: jasminePlugin,
+        },
+
+        rules: {
+            ...jasminePlugin.configs.recommended.rules,
+            ...jasmineTestsConfig.rules,
+
+            /* Only test files supporting async functions are checked. */
+            '@beanbag/jasmine-prefer-async': [
+                preferAsyncSeverity,
+                {
+                    files: [
+                        ...es6Files,
+                        ...flatFilePatterns.typescript,
+                    ],
+                },
+            ],
+
+            /* The suite name is derived from the test file patterns. */
+            '@beanbag/jasmine-suite-structure': [
+                suiteStructureSeverity,
+                {
+                    files,
+                },
+            ],
+        },
+    }];
+}
+
+
+/**
+ * Return a flat configuration for Storybook files.
+ *
+ * This is the flat equivalent of the `storybook` configuration.
+ *
+ * Args:
+ *     files (Array of string):
+ *         The file patterns the configuration applies to.
+ *
+ * Returns:
+ *     Array of Linter.Config:
+ *     The flat configuration.
+ */
+function buildStorybookFlatConfig(
+    files: string[],
+): Linter.Config[] {
+    return [{
+        files,
+        name: '@beanbag/storybook',
+        rules: storybookConfig.rules,
+    }];
+}
+
+
+/**
+ * Return a flat configuration for an environment's globals.
+ *
+ * This is the flat equivalent of enabling the environment in a legacy
+ * configuration.
+ *
+ * Args:
+ *     name (string):
+ *         The name of the environment.
+ *
+ * Returns:
+ *     Array of Linter.Config:
+ *     The flat configuration.
+ */
+function buildEnvironmentFlatConfig(
+    name: string,
+): Linter.Config[] {
+    return [{
+        name: `@beanbag/${name}`,
+
+        languageOptions: {
+            globals: globals[name],
+        },
+    }];
+}
+
+
+/*
+ * Options for creating a customized recommended configuration.
+ *
+ * Any file patterns provided replace the defaults used by the
+ * `flat/recommended` configuration.
+ */
+export interface CreateConfigOptions {
+    /* File patterns for JavaScript build configuration files. */
+    buildFiles?: string[];
+
+    /* Names of environments whose globals should be enabled. */
+    environments?: string[];
+
+    /* File patterns for ES6 JavaScript files. */
+    es6Files?: string[];
+
+    /* The maximum line length to enforce. */
+    maxLineLength?: number;
+
+    /* File patterns for Storybook Story files. */
+    storyFiles?: string[];
+
+    /* File patterns for Jasmine unit test files. */
+    testFiles?: string[];
+
+    /*
+     * The directory containing the root `tsconfig.json`.
+     *
+     * This is only used when `typescriptStrict` is enabled.
+     */
+    tsconfigRootDir?: string;
+
+    /* Whether to enable the type-aware `typescript-strict` rules. */
+    typescriptStrict?: boolean;
+}
+
+
+/**
+ * Return a customized recommended flat configuration.
+ *
+ * This produces the same layered configuration as `flat/recommended`, but
+ * with the provided options substituted. For example:
+ *
+ *     export default defineConfig([
+ *         ...beanbag.createConfig({
+ *             buildFiles: ['vite.config.ts'],
+ *             environments: ['backbone', 'django'],
+ *             maxLineLength: 99,
+ *         }),
+ *     ]);
+ *
+ * Args:
+ *     options (CreateConfigOptions, optional):
+ *         Options for customizing the configuration.
+ *
+ * Returns:
+ *     Array of Linter.Config:
+ *     The flat configuration.
+ *
+ * Raises:
+ *     Error:
+ *         An unknown environment name was provided.
+ */
+export function createConfig(
+    options: CreateConfigOptions = {},
+): Linter.Config[] {
+    const {
+        buildFiles = flatFilePatterns.build,
+        environments: environmentNames = [],
+        es6Files = flatFilePatterns.es6,
+        maxLineLength = defaultMaxLineLength,
+        storyFiles = flatFilePatterns.stories,
+        testFiles = flatFilePatterns.tests,
+        tsconfigRootDir,
+        typescriptStrict = false,
+    } = options;
+
+    for (const name of environmentNames) {
+        if (!environments.hasOwnProperty(name)) {
+            throw new Error(`Unknown @beanbag environment "${name}".`);
+        }
+    }
+
+    return [
+        {
+            name: '@beanbag/plugin',
+            plugins: {
+                '@beanbag': beanbagPlugin,
+            },
+        },
+        ...buildES5FlatConfig(flatFilePatterns.all, maxLineLength),
+        ...buildES6FlatConfig(es6Files),
+        ...buildTypeScriptFlatConfig(flatFilePatterns.typescript),
+        ...(typescriptStrict
+            ? buildTypeScriptStrictFlatConfig(flatFilePatterns.typescript,
+                                              tsconfigRootDir)
+            : []),
+        ...buildJSXFlatConfig(flatFilePatterns.jsx),
+        ...buildJasmineFlatConfig(testFiles, es6Files),
+        ...buildStorybookFlatConfig(storyFiles),
+
+        /* JavaScript Build Configuration */
+        ...buildES6FlatConfig(buildFiles).map(config => ({
+            ...config,
+            name: '@beanbag/build',
+
+            languageOptions: {
+                ...config.languageOptions,
+                sourceType: 'module',
+            },
+        } as Linter.Config)),
+
+        /* Environments */
+        ...environmentNames.flatMap(
+            name => buildEnvironmentFlatConfig(name)),
+    ];
+}
+
+
+/*
+ * The configurations provided by the plugin.
+ *
+ * Legacy configurations and flat configurations are typed separately, so
+ * flat configurations can be spread into a flat configuration array without
+ * a cast.
+ */
+export const configs: {
+    /* JavaScript rulesets */
+    'es5': Linter.LegacyConfig,
+    'es6': Linter.LegacyConfig,
+    'jsx': Linter.LegacyConfig,
+    'typescript': Linter.LegacyConfig,
+    'typescript-strict': Linter.LegacyConfig,
+
+    /* Environmental rulesets */
+    'jasmine': Linter.LegacyConfig,
+    'storybook': Linter.LegacyConfig,
+
+    /* Recommended ruleset */
+    'recommended': Linter.LegacyConfig,
+
+    /* Flat rulesets */
+    'flat/es5': Linter.Config[],
+    'flat/es6': Linter.Config[],
+    'flat/jasmine': Linter.Config[],
+    'flat/jsx': Linter.Config[],
+    'flat/recommended': Linter.Config[],
+    'flat/storybook': Linter.Config[],
+    'flat/typescript': Linter.Config[],
+    'flat/typescript-strict': Linter.Config[],
+
+    /* Flat environments */
+    [key: `flat/${string}`]: Linter.Config[],
+} = {
     /* JavaScript rulesets */
     es5: es5Config,
     es6: es6Config,
     jsx: jsxConfig,
     typescript: typescriptConfig,
+    'typescript-strict': typescriptStrictConfig,
 
     /* Environmental rulesets */
     jasmine: jasmineTestsConfig,
@@ -1351,40 +2584,27 @@ export const configs = {
             },
         ],
     },
-};
-
-
-export const environments = {
-    'backbone': {
-        globals: {
-            Backbone: false,
-            _: false,
-        },
-    },
 
-    'django': {
-        globals: {
-            django: false,
-            gettext: false,
-            gettext_noop: false,
-            interpolate: false,
-            ngettext: false,
-            npgettext: false,
-            pgettext: false,
-        },
-    },
+    /* Flat JavaScript rulesets */
+    'flat/es5': buildES5FlatConfig(flatFilePatterns.javascript),
+    'flat/es6': buildES6FlatConfig(flatFilePatterns.es6),
+    'flat/jsx': buildJSXFlatConfig(flatFilePatterns.jsx),
+    'flat/typescript': buildTypeScriptFlatConfig(flatFilePatterns.typescript),
+    'flat/typescript-strict': [
+        ...buildTypeScriptFlatConfig(flatFilePatterns.typescript),
+        ...buildTypeScriptStrictFlatConfig(flatFilePatterns.typescript),
+    ],
 
-    'djblets': {
-        Djblets: false,
-    },
+    /* Flat environmental rulesets */
+    'flat/jasmine': buildJasmineFlatConfig(flatFilePatterns.tests),
+    'flat/storybook': buildStorybookFlatConfig(flatFilePatterns.stories),
 
-    'jasmine-suites': {
-        globals: {
-            suite: false,
-        },
-    },
+    /* Flat recommended ruleset */
+    'flat/recommended': createConfig(),
 
-    'reviewboard': {
-        RB: false,
-    },
+    /* Flat environments */
+    ...Object.fromEntries(
+        Object.keys(environments)
+            .map(name => [`flat/${name}`,
+                          buildEnvironmentFlatConfig(name)])),
 };
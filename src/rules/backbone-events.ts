@@ -0,0 +1,261 @@
+/*
+ * Validate the `events` hash of Backbone views.
+ *
+ * Backbone silently ignores handlers that don't exist, so a typo in a
+ * handler name results in an event that never fires. This checks that each
+ * handler named in an `events` hash is a method on the view, or on a base
+ * view defined in the same file.
+ *
+ * For example:
+ *
+ *     const MyView = Backbone.View.extend({
+ *         events: {
+ *             'click .save-button': '_onSaveClicked',
+ *         },
+ *
+ *         _onSaveClicked() { ... },
+ *     });
+ *
+ * Not:
+ *
+ *     const MyView = Backbone.View.extend({
+ *         events: {
+ *             'click .save-button': '_onSaveClick',
+ *         },
+ *
+ *         _onSaveClicked() { ... },
+ *     });
+ *
+ * Event keys must also have an event name, and keys ending in whitespace
+ * without a selector are reported. Duplicate keys (ignoring differences in
+ * whitespace) are reported, since only the last handler would be used.
+ *
+ * Views inheriting from base views defined in other files can't be checked,
+ * and are skipped.
+ */
+
+'use strict';
+
+import type { Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+import {
+    getClassChain,
+    getClassDefinition,
+    isSubclassOf,
+    viewMethods,
+} from '../utils/backbone';
+import type {
+    ClassDefinition,
+    ClassDefinitionNode,
+} from '../utils/backbone';
+import { getMemberName } from '../utils/nodes';
+
+
+/*
+ * A regex splitting an event key into the event name and selector.
+ *
+ * This matches Backbone's own parsing of event keys.
+ */
+const eventKeyRE = /^\s*(\S+)(\s*)(.*?)\s*$/su;
+
+
+/**
+ * Return the `events` hash of a view, if it's an object literal.
+ *
+ * Args:
+ *     definition (ClassDefinition):
+ *         The view definition.
+ *
+ * Returns:
+ *     ESTree.ObjectExpression:
+ *     The `events` hash, or ``null`` if there isn't one or it's not an
+ *     object literal.
+ */
+function getEventsHash(
+    definition: ClassDefinition,
+): ESTree.ObjectExpression | null {
+    const events = (definition.staticMembers.get('events') ??
+                    definition.members.get('events'));
+
+    return (events?.type === 'ObjectExpression' ? events : null);
+}
+
+
+export default {
+    meta: {
+        type: 'problem',
+
+        defaultOptions: [
+            {
+                baseViews: ['Backbone.View'],
+            },
+        ],
+
+        docs: {
+            description: 'Validate the events hash of Backbone views',
+            recommended: false,
+        },
+
+        messages: {
+            duplicateKey:
+                "'{{key}}' is already handled earlier in this events hash.",
+            emptyKey: 'Event keys must include an event name.',
+            emptySelector:
+                "The selector in '{{key}}' is empty. Remove the trailing " +
+                "whitespace to handle events on the view's element.",
+            unknownHandler: "'{{handler}}' is not a method of this view.",
+        },
+
+        schema: [
+            {
+                additionalProperties: false,
+                properties: {
+                    baseViews: {
+                        items: {
+                            type: 'string',
+                        },
+                        type: 'array',
+                        uniqueItems: true,
+                    },
+                },
+                type: 'object',
+            },
+        ],
+    },
+
+    create(context) {
+        const [{ baseViews }] = context.options;
+        const baseViewNames = new Set<string>(baseViews);
+        const sourceCode = context.sourceCode;
+        const allDefinitions: ClassDefinition[] = [];
+
+        /**
+         * Record a possible class definition.
+         *
+         * Args:
+         *     node (ClassDefinitionNode):
+         *         The node that may define a class.
+         */
+        function addDefinition(
+            node: ClassDefinitionNode & Rule.NodeParentExtension,
+        ) {
+            const definition = getClassDefinition(sourceCode, node);
+
+            if (definition !== null) {
+                allDefinitions.push(definition);
+            }
+        }
+
+        /**
+         * Check the events hash of a view.
+         *
+         * Args:
+         *     definition (ClassDefinition):
+         *         The view definition.
+         *
+         *     definitions (Map of string to ClassDefinition):
+         *         All named classes in the file, keyed by name.
+         */
+        function checkView(
+            definition: ClassDefinition,
+            definitions: Map<string, ClassDefinition>,
+        ) {
+            const events = getEventsHash(definition);
+
+            if (events === null) {
+                return;
+            }
+
+            const chain = getClassChain(definition, definitions);
+            const seenKeys = new Set<string>();
+
+            for (const prop of events.properties) {
+                if (prop.type !== 'Property') {
+                    continue;
+                }
+
+                const key = getMemberName(prop);
+
+                if (key === null) {
+                    continue;
+                }
+
+                const m = eventKeyRE.exec(key);
+
+                if (m === null) {
+                    context.report({
+                        messageId: 'emptyKey',
+                        node: prop.key,
+                    });
+                    continue;
+                }
+
+                const [, eventName, separator, selector] = m;
+
+                if (separator !== '' && selector === '') {
+                    context.report({
+                        data: { key },
+                        messageId: 'emptySelector',
+                        node: prop.key,
+                    });
+                }
+
+                const normKey = (selector === ''
+                                 ? eventName
+                                 : `${eventName} ${selector.replace(/\s+/gu,
+                                                                    ' ')}`);
+
+                if (seenKeys.has(normKey)) {
+                    context.report({
+                        data: {
+                            key: normKey,
+                        },
+                        messageId: 'duplicateKey',
+                        node: prop.key,
+                    });
+                }
+
+                seenKeys.add(normKey);
+
+                const value = prop.value;
+
+                if (value.type === 'Literal' &&
+                    typeof value.value === 'string' &&
+                    !viewMethods.has(value.value) &&
+                    !chain.some(
+                        cls => cls.members.has(value.value as string))) {
+                    context.report({
+                        data: {
+                            handler: value.value,
+                        },
+                        messageId: 'unknownHandler',
+                        node: value,
+                    });
+                }
+            }
+        }
+
+        return {
+            CallExpression: addDefinition,
+            ClassDeclaration: addDefinition,
+            ClassExpression: addDefinition,
+
+            'Program:exit'() {
+                const definitions = new Map<string, ClassDefinition>();
+
+                for (const definition of allDefinitions) {
+                    if (definition.name !== null) {
+                        definitions.set(definition.name, definition);
+                    }
+                }
+
+                for (const definition of allDefinitions) {
+                    if (isSubclassOf(definition, definitions, baseViewNames)) {
+                        checkView(definition, definitions);
+                    }
+                }
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
@@ -0,0 +1,408 @@
+/*
+ * Prefer `listenTo()` over `on()` for events on other objects.
+ *
+ * When a Backbone view or model binds to events on another object with
+ * `on()` or `bind()`, the other object holds a reference to the handler
+ * until it's explicitly unbound, which often leaks the view. `listenTo()`
+ * tracks the binding so it's removed by `stopListening()`, which
+ * `Backbone.View.remove()` calls automatically.
+ *
+ * For example:
+ *
+ *     const MyView = Backbone.View.extend({
+ *         initialize() {
+ *             this.listenTo(this.model, 'change', this.render);
+ *         },
+ *     });
+ *
+ * Not:
+ *
+ *     const MyView = Backbone.View.extend({
+ *         initialize() {
+ *             this.model.on('change', this.render, this);
+ *         },
+ *     });
+ *
+ * Calls on `this`, calls on jQuery objects (such as `this.$el` or `$(...)`),
+ * and calls with a matching `off()` or `unbind()` in the class's `remove()`
+ * method are allowed.
+ */
+
+'use strict';
+
+import type { Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+import {
+    getClassChain,
+    getClassDefinition,
+    isSubclassOf,
+} from '../utils/backbone';
+import type {
+    ClassDefinition,
+    ClassDefinitionNode,
+} from '../utils/backbone';
+import { jQueryNameRE } from '../utils/jquery';
+
+
+/*
+ * A call to a method on an object, such as `obj.on(...)`.
+ */
+type MethodCall = ESTree.SimpleCallExpression & Rule.NodeParentExtension & {
+    callee: ESTree.MemberExpression;
+};
+
+
+/*
+ * Methods that bind events.
+ */
+const bindMethods = new Set(['bind', 'on']);
+
+
+/*
+ * Methods that unbind events.
+ */
+const unbindMethods = new Set(['off', 'unbind']);
+
+
+/**
+ * Return the name of the method being called, if it's a method call.
+ *
+ * Args:
+ *     node (ESTree.CallExpression):
+ *         The call to check.
+ *
+ * Returns:
+ *     string:
+ *     The name of the method, or ``null`` if this isn't a call to a
+ *     non-computed method.
+ */
+function getMethodName(
+    node: ESTree.CallExpression,
+): string | null {
+    const callee = node.callee;
+
+    return (callee.type === 'MemberExpression' &&
+            !callee.computed &&
+            callee.property.type === 'Identifier'
+            ? callee.property.name
+            : null);
+}
+
+
+/**
+ * Return whether an expression appears to be a jQuery object.
+ *
+ * This follows Beanbag's convention of prefixing names holding jQuery
+ * objects with `$`, and treats the results of calls on jQuery
+ * objects as jQuery objects.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The expression to check.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the expression appears to be a jQuery object.
+ */
+function isJQueryObject(
+    node: ESTree.Node,
+): boolean {
+    switch (node.type) {
+        case 'Identifier':
+            return jQueryNameRE.test(node.name) || node.name === 'jQuery';
+
+        case 'MemberExpression':
+            return (!node.computed &&
+                    node.property.type === 'Identifier' &&
+                    jQueryNameRE.test(node.property.name));
+
+        case 'CallExpression': {
+            const callee = node.callee;
+
+            return (isJQueryObject(callee) ||
+                    (callee.type === 'MemberExpression' &&
+                     isJQueryObject(callee.object)));
+        }
+
+        default:
+            return false;
+    }
+}
+
+
+/**
+ * Return whether a node is a function.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The node to check.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the node is a function expression or declaration.
+ */
+function isFunction(
+    node: ESTree.Node,
+): node is ESTree.Function {
+    return (node.type === 'ArrowFunctionExpression' ||
+            node.type === 'FunctionDeclaration' ||
+            node.type === 'FunctionExpression');
+}
+
+
+export default {
+    meta: {
+        type: 'suggestion',
+
+        defaultOptions: [
+            {
+                baseClasses: ['Backbone.Model', 'Backbone.View'],
+            },
+        ],
+
+        docs: {
+            description:
+                'Prefer listenTo() over on() for events on other objects',
+            recommended: false,
+        },
+
+        hasSuggestions: true,
+
+        messages: {
+            preferListenTo:
+                "Use 'this.listenTo()' instead of '{{method}}()' on another " +
+                'object, so the handler is unbound by stopListening().',
+            useListenTo: "Replace with 'this.listenTo({{object}}, ...)'.",
+        },
+
+        schema: [
+            {
+                additionalProperties: false,
+                properties: {
+                    baseClasses: {
+                        items: {
+                            type: 'string',
+                        },
+                        type: 'array',
+                        uniqueItems: true,
+                    },
+                },
+                type: 'object',
+            },
+        ],
+    },
+
+    create(context) {
+        const [{ baseClasses }] = context.options;
+        const baseClassNames = new Set<string>(baseClasses);
+        const sourceCode = context.sourceCode;
+        const allDefinitions: ClassDefinition[] = [];
+        const bindCalls: MethodCall[] = [];
+        const unbindCalls: MethodCall[] = [];
+
+        /**
+         * Record a possible class definition.
+         *
+         * Args:
+         *     node (ClassDefinitionNode):
+         *         The node that may define a class.
+         */
+        function addDefinition(
+            node: ClassDefinitionNode & Rule.NodeParentExtension,
+        ) {
+            const definition = getClassDefinition(sourceCode, node);
+
+            if (definition !== null) {
+                allDefinitions.push(definition);
+            }
+        }
+
+        /**
+         * Return whether a call has a matching unbind call in `remove()`.
+         *
+         * The unbind call must be on the same object, and must either unbind
+         * all events or the same events.
+         *
+         * Args:
+         *     node (MethodCall):
+         *         The call binding the events.
+         *
+         *     chain (Array of ClassDefinition):
+         *         The class containing the call, and its base classes.
+         *
+         * Returns:
+         *     boolean:
+         *     ``true`` if the events are unbound in ``remove()``.
+         */
+        function isUnboundInRemove(
+            node: MethodCall,
+            chain: ClassDefinition[],
+        ): boolean {
+            const objectText = sourceCode.getText(node.callee.object);
+            const eventsText = sourceCode.getText(node.arguments[0]);
+            const removeFuncs = chain
+                .map(cls => cls.members.get('remove'))
+                .filter(member => member !== undefined && isFunction(member));
+
+            return unbindCalls.some(call => {
+                const eventsArg = call.arguments[0];
+
+                return (
+                    sourceCode.getText(call.callee.object) === objectText &&
+                    (eventsArg === undefined ||
+                     (eventsArg.type === 'Literal' &&
+                      eventsArg.value === null) ||
+                     sourceCode.getText(eventsArg) === eventsText) &&
+                    removeFuncs.some(func => (
+                        func.range[0] <= call.range[0] &&
+                        call.range[1] <= func.range[1])));
+            });
+        }
+
+        /**
+         * Check a call binding events.
+         *
+         * Args:
+         *     node (MethodCall):
+         *         The call to check.
+         *
+         *     methods (Map of ESTree.Function to ClassDefinition):
+         *         The methods of all Backbone classes, mapped to their
+         *         classes.
+         *
+         *     definitions (Map of string to ClassDefinition):
+         *         All named classes in the file, keyed by name.
+         */
+        function checkBindCall(
+            node: MethodCall,
+            methods: Map<ESTree.Node, ClassDefinition>,
+            definitions: Map<string, ClassDefinition>,
+        ) {
+            let current: Rule.Node = node.parent;
+            let changesThis = false;
+
+            while (current && !methods.has(current)) {
+                if (current.type === 'FunctionDeclaration' ||
+                    current.type === 'FunctionExpression') {
+                    changesThis = true;
+                }
+
+                current = current.parent;
+            }
+
+            if (!current ||
+                isUnboundInRemove(
+                    node,
+                    getClassChain(methods.get(current), definitions))) {
+                return;
+            }
+
+            const args = node.arguments;
+            const contextArg = args[2];
+
+            /*
+             * listenTo() always calls handlers with the listener as `this`,
+             * so only calls with the same context can be rewritten. Without
+             * a context, on() calls handlers with the object as `this`, so
+             * only arrow functions (which ignore it) can be rewritten.
+             */
+            const canSuggest = (
+                !changesThis &&
+                args[0].type !== 'ObjectExpression' &&
+                ((args.length === 2 &&
+                  args[1].type === 'ArrowFunctionExpression') ||
+                 (args.length === 3 && contextArg.type === 'ThisExpression')));
+            const objectText = sourceCode.getText(node.callee.object);
+
+            context.report({
+                data: {
+                    method: getMethodName(node),
+                },
+                messageId: 'preferListenTo',
+                node: node.callee.property,
+                suggest: (canSuggest
+                          ? [{
+                              data: {
+                                  object: objectText,
+                              },
+                              fix: fixer => fixer.replaceText(
+                                  node,
+                                  `this.listenTo(${objectText}, ` +
+                                  `${sourceCode.getText(args[0])}, ` +
+                                  `${sourceCode.getText(args[1])})`),
+                              messageId: 'useListenTo',
+                          }]
+                          : []),
+            });
+        }
+
+        return {
+            CallExpression(node: ESTree.CallExpression &
+                                 Rule.NodeParentExtension) {
+                addDefinition(node);
+
+                const methodName = getMethodName(node);
+                const callee = node.callee as ESTree.MemberExpression;
+
+                if (methodName === null ||
+                    callee.object.type === 'ThisExpression' ||
+                    isJQueryObject(callee.object)) {
+                    return;
+                }
+
+                if (unbindMethods.has(methodName)) {
+                    unbindCalls.push(node as MethodCall);
+                } else if (bindMethods.has(methodName)) {
+                    const args = node.arguments;
+
+                    /*
+                     * Backbone accepts event names or a map of events to
+                     * handlers. Function.prototype.bind() is called with a
+                     * `this` value instead, and isn't included.
+                     */
+                    const hasEventNames = (
+                        args.length >= 2 &&
+                        ((args[0].type === 'Literal' &&
+                          typeof args[0].value === 'string') ||
+                         args[0].type === 'TemplateLiteral'));
+                    const hasEventMap = (methodName === 'on' &&
+                                         args[0]?.type === 'ObjectExpression');
+
+                    if (hasEventNames || hasEventMap) {
+                        bindCalls.push(node as MethodCall);
+                    }
+                }
+            },
+
+            ClassDeclaration: addDefinition,
+            ClassExpression: addDefinition,
+
+            'Program:exit'() {
+                const definitions = new Map<string, ClassDefinition>();
+                const methods = new Map<ESTree.Node, ClassDefinition>();
+
+                for (const definition of allDefinitions) {
+                    if (definition.name !== null) {
+                        definitions.set(definition.name, definition);
+                    }
+                }
+
+                for (const definition of allDefinitions) {
+                    if (isSubclassOf(definition, definitions,
+                                     baseClassNames)) {
+                        for (const member of definition.members.values()) {
+                            if (isFunction(member)) {
+                                methods.set(member, definition);
+                            }
+                        }
+                    }
+                }
+
+                for (const node of bindCalls) {
+                    checkBindCall(node, methods, definitions);
+                }
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
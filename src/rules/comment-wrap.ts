@@ -0,0 +1,464 @@
+/*
+ * Reflow comment paragraphs that run past the maximum line length.
+ *
+ * Paragraphs in starred block comments and in runs of `//` comments are
+ * rewrapped to fit within the configured width. Only paragraphs containing a
+ * line that's too long are reflowed, so hand-wrapped comments are left alone.
+ *
+ * For example, with a `width` of 40:
+ *
+ *     /*
+ *      * This comment would otherwise run
+ *      * past the end of the line.
+ *      *\/
+ *
+ * Not:
+ *
+ *     /*
+ *      * This comment would otherwise run past the end of the line.
+ *      *\/
+ *
+ * Indented code samples, lines containing URLs, and docstring section
+ * headers and argument names are kept as-is. Each item in a bulleted or
+ * numbered list is wrapped on its own, with continuation lines indented to
+ * match the item's text.
+ */
+
+'use strict';
+
+import type { AST, Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+import { isStarredBlockComment, sectionHeaderRE } from '../utils/docstrings';
+
+
+/*
+ * A regex matching lines containing URLs.
+ *
+ * This is the same check used by `@beanbag/max-len`.
+ */
+const urlRE = /[^:/?#]:\/\/[^?#]/u;
+
+
+/*
+ * A regex matching the start of a bulleted or numbered list item.
+ */
+const listItemRE = /^(?:[-*+]|\d+[.)])\s+/u;
+
+
+/*
+ * A regex matching a label at the start of a paragraph, such as `NOTE:`.
+ *
+ * Continuation lines of these paragraphs are often indented to line up with
+ * the text after the label.
+ */
+const labelRE = /^(?:FIXME|NOTE|TODO|XXX):\s+/u;
+
+
+/*
+ * Docstring sections whose indented content is prose.
+ *
+ * Indented lines after any other header, such as `Example:` or the `Not:`
+ * before a counter-example, are treated as code samples.
+ */
+const proseSectionNames = new Set([
+    'Args',
+    'Attributes',
+    'Callback Args',
+    'Context',
+    'Deprecated',
+    'Keyword Args',
+    'Model Attributes',
+    'Option Args',
+    'Raises',
+    'Returns',
+    'Type Args',
+    'Version Added',
+    'Version Changed',
+    'Yields',
+]);
+
+
+/*
+ * A regex matching `//` comments that hold directives rather than prose.
+ *
+ * This covers triple-slash directives, ESLint directives, and TypeScript
+ * pragmas.
+ */
+const lineDirectiveRE =
+    /^(?:\/|\s*(?:eslint[\s-]|globals?\s|exported\s|@ts-))/u;
+
+
+/*
+ * A line of content within a comment.
+ */
+interface CommentLine {
+    /* The line number in the file. */
+    lineNum: number;
+
+    /* The text before the content, such as `    * ` or `// `. */
+    prefix: string;
+
+    /* The content of the line, including any indentation. */
+    text: string;
+}
+
+
+/*
+ * A paragraph of prose within a comment.
+ */
+interface Paragraph {
+    /* The indentation of all lines after the first. */
+    hangingIndent: string;
+
+    /* The indentation of the first line. */
+    indent: string;
+
+    /* The lines in the paragraph. */
+    lines: CommentLine[];
+}
+
+
+/**
+ * Return the paragraphs of prose that can be reflowed within a comment.
+ *
+ * Lines that aren't part of a paragraph (code samples, URLs, section
+ * headers, and argument names) are left out.
+ *
+ * Args:
+ *     lines (Array of CommentLine):
+ *         The content lines of the comment.
+ *
+ * Returns:
+ *     Array of Paragraph:
+ *     The paragraphs in the comment.
+ */
+function getParagraphs(
+    lines: CommentLine[],
+): Paragraph[] {
+    const paragraphs: Paragraph[] = [];
+    let paragraph: Paragraph | null = null;
+    let inSection = false;
+    let inFence = false;
+
+    for (const line of lines) {
+        const text = line.text.trimEnd();
+        const content = text.trimStart();
+        const indent = text.slice(0, text.length - content.length);
+
+        if (content.startsWith('```')) {
+            inFence = !inFence;
+            paragraph = null;
+            continue;
+        }
+
+        if (content === '' || inFence) {
+            paragraph = null;
+            continue;
+        }
+
+        if (indent === '') {
+            /*
+             * Indented text in a docstring section is prose, such as the
+             * description of an argument. Anywhere else, it's a code sample.
+             */
+            const header = sectionHeaderRE.exec(content);
+
+            inSection = (header !== null && proseSectionNames.has(header[1]));
+
+            if (header !== null) {
+                paragraph = null;
+                continue;
+            }
+        }
+
+        const listItem = listItemRE.exec(content);
+
+        if (paragraph !== null &&
+            listItem === null &&
+            indent === paragraph.hangingIndent &&
+            !urlRE.test(content)) {
+            paragraph.lines.push(line);
+            continue;
+        }
+
+        paragraph = null;
+
+        if (urlRE.test(content) ||
+            (indent !== '' && !inSection) ||
+            (inSection && content.endsWith(':'))) {
+            /* URLs, code samples, and argument names are kept as-is. */
+            continue;
+        }
+
+        const hangingLength = (listItem ?? labelRE.exec(content))?.[0].length;
+
+        paragraph = {
+            hangingIndent: indent + ' '.repeat(hangingLength ?? 0),
+            indent,
+            lines: [line],
+        };
+        paragraphs.push(paragraph);
+    }
+
+    return paragraphs;
+}
+
+
+/**
+ * Return the lines of a paragraph, reflowed to fit within a width.
+ *
+ * Words longer than the width are placed on their own lines.
+ *
+ * Args:
+ *     paragraph (Paragraph):
+ *         The paragraph to reflow.
+ *
+ *     width (number):
+ *         The maximum length of each line.
+ *
+ * Returns:
+ *     Array of string:
+ *     The full text of each line, including the comment prefix.
+ */
+function reflowParagraph(
+    paragraph: Paragraph,
+    width: number,
+): string[] {
+    const prefix = paragraph.lines[0].prefix;
+    const words = paragraph.lines.flatMap(
+        line => line.text.trim().split(/\s+/u));
+    const result: string[] = [];
+    let current = `${prefix}${paragraph.indent}${words[0]}`;
+
+    for (const word of words.slice(1)) {
+        if (current.length + 1 + word.length > width) {
+            result.push(current);
+            current = `${prefix}${paragraph.hangingIndent}${word}`;
+        } else {
+            current += ` ${word}`;
+        }
+    }
+
+    result.push(current);
+
+    return result;
+}
+
+
+export default {
+    meta: {
+        type: 'layout',
+
+        defaultOptions: [
+            {
+                width: 79,
+            },
+        ],
+
+        docs: {
+            description:
+                'Reflow comment paragraphs that run past the maximum line ' +
+                'length',
+            recommended: false,
+        },
+
+        fixable: 'whitespace',
+
+        messages: {
+            tooLong:
+                'This comment runs past {{width}} characters. Reflow the ' +
+                'paragraph to fit.',
+        },
+
+        schema: [
+            {
+                additionalProperties: false,
+                properties: {
+                    width: {
+                        minimum: 1,
+                        type: 'integer',
+                    },
+                },
+                type: 'object',
+            },
+        ],
+    },
+
+    create(context) {
+        const [{ width }] = context.options;
+        const sourceCode = context.sourceCode;
+        const lines = sourceCode.lines;
+
+        /**
+         * Return the content lines of a starred block comment.
+         *
+         * Args:
+         *     comment (ESTree.Comment):
+         *         The starred block comment.
+         *
+         * Returns:
+         *     Array of CommentLine:
+         *     The content lines, or ``null`` if the opening or closing line
+         *     contains content.
+         */
+        function getBlockLines(
+            comment: ESTree.Comment,
+        ): CommentLine[] | null {
+            const { end, start } = comment.loc;
+            const opening = lines[start.line - 1].slice(start.column).trim();
+            const closing = lines[end.line - 1].slice(0, end.column).trim();
+
+            if ((opening !== '/*' && opening !== '/**') || closing !== '*/') {
+                return null;
+            }
+
+            const result: CommentLine[] = [];
+
+            for (let lineNum = start.line + 1; lineNum < end.line; lineNum++) {
+                const m = /^(\s*\* ?)(.*)$/u.exec(lines[lineNum - 1]);
+
+                result.push({
+                    lineNum,
+                    prefix: m[1],
+                    text: m[2],
+                });
+            }
+
+            return result;
+        }
+
+        /**
+         * Return runs of `//` comments on consecutive lines.
+         *
+         * Only comments on their own lines are included, and directives
+         * break up runs.
+         *
+         * Args:
+         *     comments (Array of ESTree.Comment):
+         *         All comments in the file.
+         *
+         * Returns:
+         *     Array of Array of CommentLine:
+         *     The content lines of each run.
+         */
+        function getLineCommentRuns(
+            comments: ESTree.Comment[],
+        ): CommentLine[][] {
+            const runs: CommentLine[][] = [];
+            let run: CommentLine[] = [];
+            let prevComment: ESTree.Comment | null = null;
+
+            for (const comment of comments) {
+                const { start } = comment.loc;
+                const before = lines[start.line - 1].slice(0, start.column);
+
+                if (comment.type !== 'Line' ||
+                    before.trim() !== '' ||
+                    lineDirectiveRE.test(comment.value)) {
+                    prevComment = null;
+                    continue;
+                }
+
+                if (prevComment === null ||
+                    prevComment.loc.start.line !== start.line - 1 ||
+                    prevComment.loc.start.column !== start.column) {
+                    run = [];
+                    runs.push(run);
+                }
+
+                const m = /^( ?)(.*)$/u.exec(comment.value);
+
+                run.push({
+                    lineNum: start.line,
+                    prefix: `${before}//${m[1]}`,
+                    text: m[2],
+                });
+                prevComment = comment;
+            }
+
+            return runs;
+        }
+
+        /**
+         * Check the paragraphs within a comment, and report any that are
+         * too long.
+         *
+         * Args:
+         *     commentLines (Array of CommentLine):
+         *         The content lines of the comment.
+         */
+        function checkParagraphs(
+            commentLines: CommentLine[],
+        ) {
+            for (const paragraph of getParagraphs(commentLines)) {
+                const longLine = paragraph.lines.find(
+                    line => lines[line.lineNum - 1].trimEnd().length > width);
+
+                if (longLine === undefined) {
+                    continue;
+                }
+
+                const firstLineNum = paragraph.lines[0].lineNum;
+                const lastLineNum = paragraph.lines.at(-1).lineNum;
+                const range: AST.Range = [
+                    sourceCode.getIndexFromLoc({
+                        column: 0,
+                        line: firstLineNum,
+                    }),
+                    sourceCode.getIndexFromLoc({
+                        column: lines[lastLineNum - 1].length,
+                        line: lastLineNum,
+                    }),
+                ];
+                const oldText = lines.slice(firstLineNum - 1, lastLineNum)
+                    .join('\n');
+                const newText = reflowParagraph(paragraph, width).join('\n');
+
+                if (newText === oldText) {
+                    /* There's a word too long to wrap. */
+                    continue;
+                }
+
+                context.report({
+                    data: {
+                        width: String(width),
+                    },
+                    fix: fixer => fixer.replaceTextRange(range, newText),
+                    loc: {
+                        end: {
+                            column: lines[longLine.lineNum - 1].length,
+                            line: longLine.lineNum,
+                        },
+                        start: {
+                            column: 0,
+                            line: longLine.lineNum,
+                        },
+                    },
+                    messageId: 'tooLong',
+                });
+            }
+        }
+
+        return {
+            Program() {
+                const comments = sourceCode.getAllComments();
+
+                for (const comment of comments) {
+                    if (comment.type === 'Block' &&
+                        isStarredBlockComment(comment)) {
+                        const commentLines = getBlockLines(comment);
+
+                        if (commentLines !== null) {
+                            checkParagraphs(commentLines);
+                        }
+                    }
+                }
+
+                for (const run of getLineCommentRuns(comments)) {
+                    checkParagraphs(run);
+                }
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
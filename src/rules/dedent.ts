@@ -0,0 +1,399 @@
+/*
+ * Require multi-line template literals to be tagged with `dedent`.
+ *
+ * `dedent` strips the common indentation from a template literal, letting
+ * multi-line strings be indented along with the code around them. It only
+ * works as a template tag, and only when the lines of the template are
+ * indented consistently.
+ *
+ * For example:
+ *
+ *     const html = dedent`
+ *         <div class="user">
+ *          ${_.escape(name)}
+ *         </div>
+ *     `;
+ *
+ * Not:
+ *
+ *     const html = `
+ *         <div class="user">
+ *          ${_.escape(name)}
+ *         </div>
+ *     `;
+ *
+ *     const html = dedent(`
+ *     <div class="user">...</div>
+ *     `);
+ *
+ *     const label = dedent`Name`;
+ *
+ * Requiring `dedent` on multi-line template literals can be turned off for
+ * unit tests, where literals are often compared exactly.
+ */
+
+'use strict';
+
+import type { AST, Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+
+/*
+ * The name of the dedent template tag.
+ */
+const dedentName = 'dedent';
+
+
+/*
+ * A line of text within a template literal.
+ */
+interface TemplateLine {
+    /* The indentation of the line. */
+    indent: string;
+
+    /* The 1-based line number. */
+    line: number;
+
+    /* The index of the start of the line in the source. */
+    start: number;
+}
+
+
+/**
+ * Return whether a node is a reference to `dedent`.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The node to check.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the node is the ``dedent`` identifier.
+ */
+function isDedent(
+    node: ESTree.Node,
+): boolean {
+    return node.type === 'Identifier' && node.name === dedentName;
+}
+
+
+/**
+ * Return whether a template literal spans multiple lines.
+ *
+ * Line breaks within interpolated expressions don't count, since they
+ * aren't part of the string.
+ *
+ * Args:
+ *     node (ESTree.TemplateLiteral):
+ *         The template literal to check.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the text of the template contains a line break.
+ */
+function isMultiLine(
+    node: ESTree.TemplateLiteral,
+): boolean {
+    return node.quasis.some(quasi => quasi.value.raw.includes('\n'));
+}
+
+
+/**
+ * Return whether a template literal contains escape sequences.
+ *
+ * `dedent` handles escape sequences differently from untagged template
+ * literals, so templates containing them can't be safely converted.
+ *
+ * Args:
+ *     node (ESTree.TemplateLiteral):
+ *         The template literal to check.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the template contains a backslash.
+ */
+function hasEscapes(
+    node: ESTree.TemplateLiteral,
+): boolean {
+    return node.quasis.some(quasi => quasi.value.raw.includes('\\'));
+}
+
+
+export default {
+    meta: {
+        type: 'suggestion',
+
+        defaultOptions: [
+            {
+                requireForMultiLine: true,
+            },
+        ],
+
+        docs: {
+            description:
+                'Require multi-line template literals to be tagged with ' +
+                'dedent',
+            recommended: false,
+        },
+
+        fixable: 'code',
+        hasSuggestions: true,
+
+        messages: {
+            addDedent: "Tag the template literal with 'dedent'.",
+            inconsistentIndent:
+                'This line is indented differently from the rest of the ' +
+                "'dedent' template literal.",
+            missingDedent:
+                "Multi-line template literals must be tagged with 'dedent'.",
+            notIndented:
+                "The lines of a 'dedent' template literal must be indented " +
+                'past the line it starts on.',
+            singleLine:
+                "'dedent' is unnecessary for single-line template literals.",
+            useAsTag:
+                "'dedent' must be used as a template tag, not called as a " +
+                'function.',
+        },
+
+        schema: [
+            {
+                additionalProperties: false,
+                properties: {
+                    requireForMultiLine: {
+                        type: 'boolean',
+                    },
+                },
+                type: 'object',
+            },
+        ],
+    },
+
+    create(context) {
+        const [{ requireForMultiLine }] = context.options;
+        const sourceCode = context.sourceCode;
+
+        /**
+         * Return the lines of text within a template literal.
+         *
+         * This skips the first line (which starts with the backtick), blank
+         * lines, the line containing the closing backtick if there's no
+         * other text on it, and lines within interpolated expressions.
+         *
+         * Args:
+         *     node (ESTree.TemplateLiteral):
+         *         The template literal.
+         *
+         * Returns:
+         *     Array of TemplateLine:
+         *     The lines of text within the template.
+         */
+        function getTemplateLines(
+            node: ESTree.TemplateLiteral,
+        ): TemplateLine[] {
+            const lines: TemplateLine[] = [];
+            const { end, start: templateStart } = node.loc;
+
+            for (let line = templateStart.line + 1; line <= end.line; line++) {
+                const start = sourceCode.getIndexFromLoc({
+                    column: 0,
+                    line,
+                });
+                const quasi = node.quasis.find(
+                    q => q.range[0] < start && start < q.range[1]);
+
+                if (quasi === undefined) {
+                    continue;
+                }
+
+                /* Find the text of the line up to any `${` or backtick. */
+                const textEnd = quasi.range[1] - (quasi.tail ? 1 : 2);
+                const lineText = sourceCode.lines[line - 1];
+                const text = lineText.slice(
+                    0, Math.min(lineText.length, textEnd - start));
+
+                if (text.trim() === '' &&
+                    (quasi.tail || text.length === lineText.length)) {
+                    continue;
+                }
+
+                lines.push({
+                    indent: /^[ \t]*/u.exec(text)[0],
+                    line,
+                    start,
+                });
+            }
+
+            return lines;
+        }
+
+        /**
+         * Check the indentation of a dedent-tagged template literal.
+         *
+         * Args:
+         *     node (ESTree.TemplateLiteral):
+         *         The template literal to check.
+         */
+        function checkIndentation(
+            node: ESTree.TemplateLiteral,
+        ) {
+            const lines = getTemplateLines(node);
+
+            if (lines.length === 0) {
+                return;
+            }
+
+            /*
+             * Lines are compared against the first line, and may be indented
+             * less or more than it, but must use the same characters.
+             */
+            const firstIndent = lines[0].indent;
+            let minIndent = firstIndent;
+            let consistent = true;
+
+            for (const line of lines) {
+                if (line.indent.length < minIndent.length) {
+                    minIndent = line.indent;
+                }
+
+                if (!line.indent.startsWith(firstIndent) &&
+                    !firstIndent.startsWith(line.indent)) {
+                    consistent = false;
+
+                    context.report({
+                        loc: {
+                            end: {
+                                column: line.indent.length,
+                                line: line.line,
+                            },
+                            start: {
+                                column: 0,
+                                line: line.line,
+                            },
+                        },
+                        messageId: 'inconsistentIndent',
+                    });
+                }
+            }
+
+            if (!consistent) {
+                return;
+            }
+
+            const startIndent = /^[ \t]*/u.exec(
+                sourceCode.lines[node.loc.start.line - 1])[0];
+
+            if (minIndent.length > startIndent.length) {
+                return;
+            }
+
+            const newIndent = startIndent +
+                              (startIndent.includes('\t') ? '\t' : '    ');
+
+            /*
+             * dedent ignores unindented lines when finding the common
+             * indentation, so indenting them would change the result if
+             * other lines are indented.
+             */
+            const canFix = (minIndent !== '' ||
+                            lines.every(line => line.indent === ''));
+
+            context.report({
+                fix: (canFix
+                      ? fixer => lines.map(line => fixer.replaceTextRange(
+                          [line.start, line.start + minIndent.length],
+                          newIndent))
+                      : null),
+                loc: node.loc,
+                messageId: 'notIndented',
+            });
+        }
+
+        return {
+            CallExpression(node: ESTree.CallExpression) {
+                if (!isDedent(node.callee)) {
+                    return;
+                }
+
+                const arg = node.arguments[0];
+                let fix: Rule.ReportFixer = null;
+
+                if (node.arguments.length === 1 &&
+                    arg.type === 'TemplateLiteral' &&
+                    !hasEscapes(arg)) {
+                    const argText = sourceCode.getText(arg);
+
+                    /* Only fix calls without comments or extra spacing. */
+                    if (sourceCode.getText(node) ===
+                        `${dedentName}(${argText})`) {
+                        fix = fixer => fixer.replaceText(
+                            node, `${dedentName}${argText}`);
+                    }
+                }
+
+                context.report({
+                    fix,
+                    messageId: 'useAsTag',
+                    node,
+                });
+            },
+
+            TaggedTemplateExpression(node: ESTree.TaggedTemplateExpression) {
+                if (!isDedent(node.tag)) {
+                    return;
+                }
+
+                const quasi = node.quasi;
+
+                if (isMultiLine(quasi)) {
+                    checkIndentation(quasi);
+
+                    return;
+                }
+
+                /*
+                 * dedent trims leading and trailing whitespace, so the tag
+                 * can only be removed if there isn't any.
+                 */
+                const raw = quasi.quasis.map(q => q.value.raw).join('');
+                let fix: Rule.ReportFixer = null;
+
+                if (raw.trim() === raw && !hasEscapes(quasi)) {
+                    fix = fixer => fixer.removeRange([
+                        node.range[0],
+                        quasi.range[0],
+                    ] as AST.Range);
+                }
+
+                context.report({
+                    fix,
+                    messageId: 'singleLine',
+                    node: node.tag,
+                });
+            },
+
+            TemplateLiteral(node: ESTree.TemplateLiteral &
+                                  Rule.NodeParentExtension) {
+                const parent = node.parent;
+
+                /* Calls to `dedent()` are reported separately. */
+                if (!requireForMultiLine ||
+                    parent.type === 'TaggedTemplateExpression' ||
+                    (parent.type === 'CallExpression' &&
+                     isDedent(parent.callee)) ||
+                    !isMultiLine(node)) {
+                    return;
+                }
+
+                context.report({
+                    loc: node.loc,
+                    messageId: 'missingDedent',
+                    suggest: [{
+                        fix: fixer => fixer.insertTextBefore(node, dedentName),
+                        messageId: 'addDedent',
+                    }],
+                });
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
@@ -0,0 +1,461 @@
+/*
+ * Require and validate docstrings on functions, classes, and methods.
+ *
+ * Docstrings are starred block comments directly preceding a declaration,
+ * following the Beanbag conventions (see `utils/docstrings.ts`).
+ *
+ * This checks that:
+ *
+ * * Exported functions and classes, and methods of those classes, have a
+ *   docstring.
+ * * The entries in `Args:` match the function's parameter names.
+ * * `Returns:` is present when the function returns a value.
+ */
+
+'use strict';
+
+import type { Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+import {
+    type Docstring,
+    isStarredBlockComment,
+    parseDocstring,
+} from '../utils/docstrings';
+
+
+/*
+ * A function node that may be documented.
+ */
+type FunctionNode =
+    ESTree.ArrowFunctionExpression |
+    ESTree.FunctionDeclaration |
+    ESTree.FunctionExpression;
+
+
+/*
+ * A declaration that requires a docstring.
+ */
+interface DocumentedTarget {
+    /* The kind of declaration, used in messages. */
+    kind: 'class' | 'function' | 'method';
+
+    /* The name of the declaration. */
+    name: string;
+
+    /* The node to report problems on. */
+    reportNode: ESTree.Node;
+
+    /* The node the docstring must directly precede. */
+    statement: ESTree.Node;
+}
+
+
+/**
+ * Return the name of a parameter.
+ *
+ * Args:
+ *     param (ESTree.Node):
+ *         The parameter node.
+ *
+ * Returns:
+ *     string:
+ *     The parameter name, or ``null`` if the parameter is destructured.
+ */
+function getParamName(
+    param: ESTree.Node,
+): string | null {
+    /* TypeScript parameter properties wrap the parameter. */
+    const tsParam = param as unknown as {
+        parameter?: ESTree.Node,
+        type: string,
+    };
+
+    if (tsParam.type === 'TSParameterProperty') {
+        return getParamName(tsParam.parameter);
+    }
+
+    switch (param.type) {
+        case 'AssignmentPattern':
+            return getParamName(param.left);
+
+        case 'Identifier':
+            return param.name;
+
+        case 'RestElement':
+            return getParamName(param.argument);
+
+        default:
+            return null;
+    }
+}
+
+
+/**
+ * Return whether a function is annotated as not returning a value.
+ *
+ * This checks for TypeScript return types of `void`, `never`, or
+ * `Promise<void>`.
+ *
+ * Args:
+ *     node (FunctionNode):
+ *         The function to check.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the function is annotated as not returning a value.
+ */
+function isAnnotatedVoid(
+    node: FunctionNode,
+): boolean {
+    interface TypeNode {
+        type: string;
+        typeArguments?: { params: TypeNode[] };
+        typeName?: { name?: string };
+    }
+
+    const returnType = (node as unknown as {
+        returnType?: { typeAnnotation: TypeNode },
+    }).returnType?.typeAnnotation;
+
+    if (!returnType) {
+        return false;
+    }
+
+    if (returnType.type === 'TSVoidKeyword' ||
+        returnType.type === 'TSNeverKeyword') {
+        return true;
+    }
+
+    return (returnType.type === 'TSTypeReference' &&
+            returnType.typeName?.name === 'Promise' &&
+            returnType.typeArguments?.params.length === 1 &&
+            returnType.typeArguments.params[0].type === 'TSVoidKeyword');
+}
+
+
+export default {
+    meta: {
+        type: 'suggestion',
+
+        defaultOptions: [
+            {
+                exportedOnly: true,
+            },
+        ],
+
+        docs: {
+            description:
+                'Require and validate docstrings on functions, classes, ' +
+                'and methods',
+            recommended: false,
+        },
+
+        messages: {
+            missingArg:
+                "Argument '{{name}}' is not listed in the docstring's " +
+                'Args section.',
+            missingDocstring: "Missing a docstring for {{kind}} '{{name}}'.",
+            missingReturns:
+                'The docstring is missing a Returns section, but the ' +
+                '{{kind}} returns a value.',
+            unknownArg:
+                "The docstring lists argument '{{name}}', which is not a " +
+                'parameter.',
+        },
+
+        schema: [
+            {
+                additionalProperties: false,
+                properties: {
+                    exportedOnly: {
+                        type: 'boolean',
+                    },
+                },
+                type: 'object',
+            },
+        ],
+    },
+
+    create(context) {
+        const [{ exportedOnly }] = context.options;
+        const sourceCode = context.sourceCode;
+        const returnsValueStack: boolean[] = [];
+
+        /**
+         * Return the statement a top-level declaration is documented on.
+         *
+         * Args:
+         *     node (ESTree.Node):
+         *         The declaration node.
+         *
+         * Returns:
+         *     ESTree.Node:
+         *     The node the docstring must precede, or ``null`` if the
+         *     declaration doesn't require a docstring.
+         */
+        function getTopLevelStatement(
+            node: Rule.Node,
+        ): ESTree.Node | null {
+            const parent = node.parent;
+
+            if (parent.type === 'ExportNamedDeclaration' ||
+                parent.type === 'ExportDefaultDeclaration') {
+                return parent;
+            } else if (parent.type === 'Program' && !exportedOnly) {
+                return node;
+            }
+
+            return null;
+        }
+
+        /**
+         * Return the declaration that a function is documented as.
+         *
+         * Args:
+         *     node (FunctionNode):
+         *         The function node.
+         *
+         * Returns:
+         *     DocumentedTarget:
+         *     The declaration, or ``null`` if the function doesn't require a
+         *     docstring.
+         */
+        function getFunctionTarget(
+            node: FunctionNode & Rule.NodeParentExtension,
+        ): DocumentedTarget | null {
+            const parent = node.parent;
+
+            if (node.type === 'FunctionDeclaration') {
+                const statement = getTopLevelStatement(node);
+
+                return statement && {
+                    kind: 'function',
+                    name: node.id?.name ?? 'default',
+                    reportNode: node.id ?? node,
+                    statement,
+                };
+            } else if (parent.type === 'MethodDefinition') {
+                const classNode = parent.parent.parent as Rule.Node;
+
+                if (!getTopLevelStatement(classNode)) {
+                    return null;
+                }
+
+                return {
+                    kind: 'method',
+                    name: (parent.key.type === 'Identifier'
+                           ? parent.key.name
+                           : sourceCode.getText(parent.key)),
+                    reportNode: parent.key,
+                    statement: parent,
+                };
+            } else if (parent.type === 'VariableDeclarator' &&
+                       parent.init === node &&
+                       parent.id.type === 'Identifier' &&
+                       parent.parent.type === 'VariableDeclaration' &&
+                       parent.parent.declarations.length === 1) {
+                const statement = getTopLevelStatement(parent.parent);
+
+                return statement && {
+                    kind: 'function',
+                    name: parent.id.name,
+                    reportNode: parent.id,
+                    statement,
+                };
+            }
+
+            return null;
+        }
+
+        /**
+         * Return the docstring preceding a statement.
+         *
+         * Args:
+         *     statement (ESTree.Node):
+         *         The statement the docstring must precede.
+         *
+         * Returns:
+         *     ESTree.Comment:
+         *     The docstring comment, or ``null`` if there isn't one.
+         */
+        function getDocstringComment(
+            statement: ESTree.Node,
+        ): ESTree.Comment | null {
+            const comment = sourceCode.getCommentsBefore(statement).at(-1);
+
+            if (comment &&
+                isStarredBlockComment(comment) &&
+                statement.loc.start.line - comment.loc.end.line <= 1) {
+                return comment;
+            }
+
+            return null;
+        }
+
+        /**
+         * Check the documented arguments against a function's parameters.
+         *
+         * Args:
+         *     node (FunctionNode):
+         *         The function being checked.
+         *
+         *     docstring (Docstring):
+         *         The parsed docstring.
+         *
+         *     comment (ESTree.Comment):
+         *         The docstring comment.
+         */
+        function checkArgs(
+            node: FunctionNode,
+            docstring: Docstring,
+            comment: ESTree.Comment,
+        ) {
+            const argNames = new Set(docstring.argNames);
+            const paramNames = new Set<string>();
+            let hasDestructured = false;
+
+            for (const param of node.params) {
+                const name = getParamName(param);
+
+                if (name === null) {
+                    hasDestructured = true;
+                } else if (name !== 'this') {
+                    paramNames.add(name);
+
+                    if (!argNames.has(name)) {
+                        context.report({
+                            data: { name },
+                            messageId: 'missingArg',
+                            node: param,
+                        });
+                    }
+                }
+            }
+
+            if (!hasDestructured) {
+                /*
+                 * Destructured parameters are documented under names of
+                 * the author's choosing, so we can only check for unknown
+                 * names when there aren't any.
+                 */
+                for (const name of argNames) {
+                    if (!paramNames.has(name)) {
+                        context.report({
+                            data: { name },
+                            loc: comment.loc,
+                            messageId: 'unknownArg',
+                        });
+                    }
+                }
+            }
+        }
+
+        /**
+         * Check a class for a docstring.
+         *
+         * Args:
+         *     node (ESTree.Class):
+         *         The class being checked.
+         */
+        function checkClass(
+            node: (ESTree.ClassDeclaration | ESTree.ClassExpression) &
+                  Rule.NodeParentExtension,
+        ) {
+            const statement = getTopLevelStatement(node);
+
+            if (statement && !getDocstringComment(statement)) {
+                context.report({
+                    data: {
+                        kind: 'class',
+                        name: node.id?.name ?? 'default',
+                    },
+                    messageId: 'missingDocstring',
+                    node: node.id ?? node,
+                });
+            }
+        }
+
+        /**
+         * Check a function for a valid docstring.
+         *
+         * Args:
+         *     node (FunctionNode):
+         *         The function being checked.
+         *
+         *     returnsValue (boolean):
+         *         Whether the function contains a ``return`` with a value.
+         */
+        function checkFunction(
+            node: FunctionNode & Rule.NodeParentExtension,
+            returnsValue: boolean,
+        ) {
+            const target = getFunctionTarget(node);
+
+            if (target === null) {
+                return;
+            }
+
+            const comment = getDocstringComment(target.statement);
+
+            if (comment === null) {
+                context.report({
+                    data: {
+                        kind: target.kind,
+                        name: target.name,
+                    },
+                    messageId: 'missingDocstring',
+                    node: target.reportNode,
+                });
+
+                return;
+            }
+
+            const docstring = parseDocstring(comment);
+
+            checkArgs(node, docstring, comment);
+
+            const parent = node.parent;
+            const isAccessor = (parent.type === 'MethodDefinition' &&
+                                parent.kind !== 'method');
+
+            if (node.type === 'ArrowFunctionExpression' &&
+                node.expression) {
+                returnsValue = true;
+            }
+
+            if (returnsValue &&
+                !isAccessor &&
+                !node.generator &&
+                !isAnnotatedVoid(node) &&
+                !docstring.sections.has('Returns')) {
+                context.report({
+                    data: {
+                        kind: target.kind,
+                    },
+                    loc: comment.loc,
+                    messageId: 'missingReturns',
+                });
+            }
+        }
+
+        return {
+            ':function'() {
+                returnsValueStack.push(false);
+            },
+
+            ':function:exit'(node: FunctionNode & Rule.NodeParentExtension) {
+                checkFunction(node, returnsValueStack.pop());
+            },
+
+            ClassDeclaration: checkClass,
+            ClassExpression: checkClass,
+
+            ReturnStatement(node: ESTree.ReturnStatement) {
+                if (node.argument && returnsValueStack.length > 0) {
+                    returnsValueStack[returnsValueStack.length - 1] = true;
+                }
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
@@ -0,0 +1,244 @@
+/*
+ * Require a canonical marker comment on `case` fall-throughs.
+ *
+ * A non-empty `case` in a `switch` that falls through into the next `case`
+ * must end with a marker comment, to show that the fall-through is
+ * deliberate. This replaces `no-fallthrough`, and can suggest inserting the
+ * marker.
+ *
+ * The configured marker, and any comment matching `/[Ff]alls?[\s-]?through/`,
+ * are accepted as markers, but comments containing only a variant spelling
+ * of the marker (such as "fallthrough" or "Falls through") are rewritten to
+ * the canonical marker.
+ *
+ * For example:
+ *
+ *     switch (a) {
+ *         case 1:
+ *             foo();
+ *             // Fall through.
+ *
+ *         case 2:
+ *             bar();
+ *             break;
+ *     }
+ *
+ * Not:
+ *
+ *     switch (a) {
+ *         case 1:
+ *             foo();
+ *
+ *         case 2:
+ *             bar();
+ *             break;
+ *     }
+ */
+
+'use strict';
+
+import type { Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+
+/*
+ * A regex matching comments accepted as fall-through markers.
+ *
+ * This matches `noFallThroughPattern` in the plugin's configurations, so
+ * `lines-around-comment` ignores the same markers.
+ */
+const markerRE = /[Ff]alls?[\s-]?through/u;
+
+
+/*
+ * A regex matching comments containing only a variant of the marker.
+ */
+const variantMarkerRE = /^\s*[Ff]alls?[\s-]?through[.!]?\s*$/u;
+
+
+export default {
+    meta: {
+        type: 'problem',
+
+        defaultOptions: [
+            {
+                marker: 'Fall through.',
+            },
+        ],
+
+        docs: {
+            description:
+                'Require a canonical marker comment on case fall-throughs',
+            recommended: false,
+        },
+
+        fixable: 'code',
+        hasSuggestions: true,
+
+        messages: {
+            insertMarker: "Insert a '// {{marker}}' comment.",
+            missingMarker:
+                "Expected a 'break' statement or a '// {{marker}}' comment " +
+                "before '{{keyword}}'.",
+            nonCanonical: "Fall-through comments should read '{{marker}}'.",
+        },
+
+        schema: [
+            {
+                additionalProperties: false,
+                properties: {
+                    marker: {
+                        minLength: 1,
+                        type: 'string',
+                    },
+                },
+                type: 'object',
+            },
+        ],
+    },
+
+    create(context) {
+        const [{ marker }] = context.options;
+        const sourceCode = context.sourceCode;
+        const segmentsStack: Set<Rule.CodePathSegment>[] = [];
+        let currentSegments = new Set<Rule.CodePathSegment>();
+        let fallthroughCase: ESTree.SwitchCase | null = null;
+
+        /**
+         * Return the fall-through marker comment for a case.
+         *
+         * This looks at the last comment before the next case, and the last
+         * comment in a trailing block, matching `no-fallthrough`. Comments
+         * reading exactly the configured marker are accepted, along with
+         * any comment matching the marker pattern.
+         *
+         * Args:
+         *     caseNode (ESTree.SwitchCase):
+         *         The case that falls through.
+         *
+         *     nextCase (ESTree.SwitchCase):
+         *         The case that follows it.
+         *
+         * Returns:
+         *     ESTree.Comment:
+         *     The marker comment, or ``null`` if there isn't one.
+         */
+        function getMarkerComment(
+            caseNode: ESTree.SwitchCase,
+            nextCase: ESTree.SwitchCase,
+        ): ESTree.Comment | null {
+            const candidates = [sourceCode.getCommentsBefore(nextCase).at(-1)];
+            const lastStatement = caseNode.consequent.at(-1);
+
+            if (lastStatement?.type === 'BlockStatement') {
+                const closingBrace = sourceCode.getLastToken(lastStatement);
+
+                candidates.push(
+                    sourceCode.getCommentsBefore(closingBrace).at(-1));
+            }
+
+            return candidates.find(
+                comment => (comment &&
+                            (comment.value.trim() === marker ||
+                             markerRE.test(comment.value)))) ?? null;
+        }
+
+        /**
+         * Check the marker between a case and the case it falls through to.
+         *
+         * Args:
+         *     caseNode (ESTree.SwitchCase):
+         *         The case that falls through.
+         *
+         *     nextCase (ESTree.SwitchCase):
+         *         The case that follows it.
+         */
+        function checkFallthrough(
+            caseNode: ESTree.SwitchCase,
+            nextCase: ESTree.SwitchCase,
+        ) {
+            const comment = getMarkerComment(caseNode, nextCase);
+
+            if (comment === null) {
+                const lineNum = caseNode.consequent.at(-1).loc.start.line;
+                const indent = /^\s*/u.exec(sourceCode.lines[lineNum - 1])[0];
+
+                context.report({
+                    data: {
+                        keyword: (nextCase.test === null ? 'default' : 'case'),
+                        marker,
+                    },
+                    messageId: 'missingMarker',
+                    node: nextCase,
+                    suggest: [{
+                        data: { marker },
+                        fix: fixer => fixer.insertTextAfter(
+                            sourceCode.getLastToken(caseNode),
+                            `\n${indent}// ${marker}`),
+                        messageId: 'insertMarker',
+                    }],
+                });
+            } else if (comment.value.trim() !== marker &&
+                       variantMarkerRE.test(comment.value)) {
+                context.report({
+                    data: { marker },
+                    fix: fixer => fixer.replaceTextRange(
+                        comment.range,
+                        (comment.type === 'Line'
+                         ? `// ${marker}`
+                         : `/* ${marker} */`)),
+                    loc: comment.loc,
+                    messageId: 'nonCanonical',
+                });
+            }
+        }
+
+        return {
+            onCodePathEnd() {
+                currentSegments = segmentsStack.pop();
+            },
+
+            onCodePathSegmentEnd(segment: Rule.CodePathSegment) {
+                currentSegments.delete(segment);
+            },
+
+            onCodePathSegmentStart(segment: Rule.CodePathSegment) {
+                currentSegments.add(segment);
+            },
+
+            onCodePathStart() {
+                segmentsStack.push(currentSegments);
+                currentSegments = new Set();
+            },
+
+            onUnreachableCodePathSegmentEnd(segment: Rule.CodePathSegment) {
+                currentSegments.delete(segment);
+            },
+
+            onUnreachableCodePathSegmentStart(
+                segment: Rule.CodePathSegment,
+            ) {
+                currentSegments.add(segment);
+            },
+
+            SwitchCase(node: ESTree.SwitchCase) {
+                if (fallthroughCase !== null) {
+                    checkFallthrough(fallthroughCase, node);
+                    fallthroughCase = null;
+                }
+            },
+
+            'SwitchCase:exit'(node: ESTree.SwitchCase &
+                                    Rule.NodeParentExtension) {
+                const parent = node.parent as ESTree.SwitchStatement;
+
+                if (node.consequent.length > 0 &&
+                    parent.cases.at(-1) !== node &&
+                    Array.from(currentSegments).some(
+                        segment => segment.reachable)) {
+                    fallthroughCase = node;
+                }
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
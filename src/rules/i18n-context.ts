@@ -0,0 +1,91 @@
+/*
+ * Require a literal context for contextual gettext functions.
+ *
+ * `pgettext()` and `npgettext()` take a context as their first argument,
+ * which disambiguates identical strings for translators. Like the strings
+ * themselves, the context must be a string literal so `makemessages` can
+ * extract it.
+ *
+ * For example:
+ *
+ *     pgettext('verb', 'Close')
+ *
+ * Not:
+ *
+ *     pgettext(context, 'Close')
+ *     pgettext('Close')
+ */
+
+'use strict';
+
+import type { Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+import {
+    getGettextCallName,
+    getStaticString,
+    gettextFunctions,
+} from '../utils/i18n';
+
+
+export default {
+    meta: {
+        type: 'problem',
+
+        docs: {
+            description:
+                'Require pgettext() and npgettext() to receive a literal ' +
+                'context',
+            recommended: false,
+        },
+
+        messages: {
+            missingContext: '{{name}}() requires a context argument.',
+            nonLiteralContext:
+                'The context passed to {{name}}() must be a string literal.',
+        },
+
+        schema: [],
+    },
+
+    create(context) {
+        return {
+            CallExpression(node: ESTree.CallExpression) {
+                const name = getGettextCallName(context, node);
+
+                if (name === null) {
+                    return;
+                }
+
+                const { contextArg, numArgs } = gettextFunctions[name];
+
+                if (contextArg === undefined) {
+                    return;
+                }
+
+                const arg = node.arguments[contextArg];
+
+                if (node.arguments.length < numArgs &&
+                    (arg === undefined ||
+                     getStaticString(arg) !== null)) {
+                    /*
+                     * The context was most likely left out, and the
+                     * arguments shifted over.
+                     */
+                    context.report({
+                        data: { name },
+                        messageId: 'missingContext',
+                        node,
+                    });
+                } else if (arg.type !== 'SpreadElement' &&
+                           getStaticString(arg) === null) {
+                    context.report({
+                        data: { name },
+                        messageId: 'nonLiteralContext',
+                        node: arg,
+                    });
+                }
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
@@ -0,0 +1,242 @@
+/*
+ * Require interpolate() placeholders to match the arguments.
+ *
+ * Django's `interpolate()` supports two forms:
+ *
+ *     interpolate(gettext('%s of %s'), [current, total])
+ *     interpolate(gettext('%(current)s of %(total)s'),
+ *                 {current: current, total: total},
+ *                 true)
+ *
+ * Positional `%s` placeholders require an array of values. Named
+ * `%(name)s` placeholders require an object and `true` for the `named`
+ * argument. Mixing these up leaves placeholders in the translated string.
+ *
+ * This can only check format strings that are string literals or gettext
+ * calls with string literals.
+ */
+
+'use strict';
+
+import type { Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+import {
+    getGettextStrings,
+    getGlobalCallName,
+    getStaticString,
+    placeholderRE,
+} from '../utils/i18n';
+
+
+/*
+ * Placeholders found in a format string.
+ */
+interface Placeholders {
+    /* The names of all named placeholders. */
+    names: Set<string>;
+
+    /* The number of positional placeholders. */
+    numPositional: number;
+}
+
+
+/**
+ * Return the placeholders in a format string.
+ *
+ * Args:
+ *     format (string):
+ *         The format string.
+ *
+ * Returns:
+ *     Placeholders:
+ *     The placeholders found in the string.
+ */
+function getPlaceholders(
+    format: string,
+): Placeholders {
+    const names = new Set<string>();
+    let numPositional = 0;
+
+    for (const m of format.matchAll(placeholderRE)) {
+        if (m[0] === '%s') {
+            numPositional++;
+        } else if (m[1] !== undefined) {
+            names.add(m[1]);
+        }
+    }
+
+    return {
+        names,
+        numPositional,
+    };
+}
+
+
+/**
+ * Return the keys of an object literal.
+ *
+ * Args:
+ *     node (ESTree.ObjectExpression):
+ *         The object literal.
+ *
+ * Returns:
+ *     Set of string:
+ *     The keys of the object, or ``null`` if they can't all be determined.
+ */
+function getObjectKeys(
+    node: ESTree.ObjectExpression,
+): Set<string> | null {
+    const keys = new Set<string>();
+
+    for (const prop of node.properties) {
+        if (prop.type !== 'Property' || prop.computed) {
+            return null;
+        } else if (prop.key.type === 'Identifier') {
+            keys.add(prop.key.name);
+        } else if (prop.key.type === 'Literal') {
+            keys.add(String(prop.key.value));
+        }
+    }
+
+    return keys;
+}
+
+
+export default {
+    meta: {
+        type: 'problem',
+
+        docs: {
+            description:
+                'Require interpolate() placeholders to match the arguments',
+            recommended: false,
+        },
+
+        messages: {
+            missingKey:
+                "The format string uses '%({{name}})s', but the object " +
+                'has no {{name}} key.',
+            mixedPlaceholders:
+                'The format string mixes positional (%s) and named ' +
+                '(%(name)s) placeholders.',
+            namedNotEnabled:
+                'The format string uses named placeholders, so ' +
+                'interpolate() must be passed an object and `true` for ' +
+                'named.',
+            namedRequiresObject:
+                'interpolate() must be passed an object when named is `true`.',
+            positionalCount:
+                'The format string has {{expected}} positional ' +
+                'placeholder(s), but {{actual}} value(s) were passed.',
+            positionalRequiresArray:
+                'The format string uses positional placeholders, so ' +
+                'interpolate() must be passed an array and not named.',
+        },
+
+        schema: [],
+    },
+
+    create(context) {
+        return {
+            CallExpression(node: ESTree.CallExpression) {
+                if (getGlobalCallName(context, node,
+                                      ['interpolate']) === null) {
+                    return;
+                }
+
+                const [formatArg, valuesArg, namedArg] = node.arguments;
+
+                if (!formatArg || formatArg.type === 'SpreadElement') {
+                    return;
+                }
+
+                const staticFormat = getStaticString(formatArg);
+                const formats = (staticFormat !== null
+                                 ? [staticFormat]
+                                 : getGettextStrings(context, formatArg));
+
+                if (formats === null) {
+                    /* We can't know the placeholders. */
+                    return;
+                }
+
+                const isNamed = (namedArg !== undefined &&
+                                 namedArg.type === 'Literal' &&
+                                 namedArg.value === true);
+                const placeholders = formats.map(
+                    format => getPlaceholders(format));
+                const hasNamed = placeholders.some(
+                    info => info.names.size > 0);
+                const hasPositional = placeholders.some(
+                    info => info.numPositional > 0);
+
+                if (hasNamed && hasPositional) {
+                    context.report({
+                        messageId: 'mixedPlaceholders',
+                        node: formatArg,
+                    });
+                } else if (hasPositional &&
+                           (isNamed ||
+                            valuesArg?.type === 'ObjectExpression')) {
+                    context.report({
+                        messageId: 'positionalRequiresArray',
+                        node: (isNamed ? namedArg : valuesArg),
+                    });
+                } else if (isNamed) {
+                    if (valuesArg?.type === 'ArrayExpression') {
+                        context.report({
+                            messageId: 'namedRequiresObject',
+                            node: valuesArg,
+                        });
+                    } else if (valuesArg?.type === 'ObjectExpression') {
+                        const keys = getObjectKeys(valuesArg);
+
+                        if (keys === null) {
+                            return;
+                        }
+
+                        const names = new Set(placeholders.flatMap(
+                            info => Array.from(info.names)));
+
+                        for (const name of names) {
+                            if (!keys.has(name)) {
+                                context.report({
+                                    data: { name },
+                                    messageId: 'missingKey',
+                                    node: valuesArg,
+                                });
+                            }
+                        }
+                    }
+                } else if (hasNamed) {
+                    context.report({
+                        messageId: 'namedNotEnabled',
+                        node,
+                    });
+                } else if (valuesArg?.type === 'ArrayExpression' &&
+                           !valuesArg.elements.some(
+                               element => element?.type === 'SpreadElement')) {
+                    /*
+                     * With ngettext(), the singular form may leave out a
+                     * placeholder, so we check against the largest count.
+                     */
+                    const expected = Math.max(...placeholders.map(
+                        info => info.numPositional));
+                    const actual = valuesArg.elements.length;
+
+                    if (expected !== actual) {
+                        context.report({
+                            data: {
+                                actual: String(actual),
+                                expected: String(expected),
+                            },
+                            messageId: 'positionalCount',
+                            node: valuesArg,
+                        });
+                    }
+                }
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
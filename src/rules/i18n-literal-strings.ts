@@ -0,0 +1,76 @@
+/*
+ * Require translatable strings to be string literals.
+ *
+ * `makemessages` extracts strings from the source code, so strings passed
+ * to `gettext()` and friends must be written out in full. Variables,
+ * concatenations, and template literals with substitutions can't be
+ * extracted, and will never be translated.
+ *
+ * For example:
+ *
+ *     gettext('Save changes')
+ *     ngettext('%s file', '%s files', count)
+ *
+ * Not:
+ *
+ *     gettext(label)
+ *     gettext('Save ' + 'changes')
+ *     gettext(`Save ${thing}`)
+ */
+
+'use strict';
+
+import type { Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+import {
+    getGettextCallName,
+    getStaticString,
+    gettextFunctions,
+} from '../utils/i18n';
+
+
+export default {
+    meta: {
+        type: 'problem',
+
+        docs: {
+            description: 'Require translatable strings to be string literals',
+            recommended: false,
+        },
+
+        messages: {
+            nonLiteral:
+                'Strings passed to {{name}}() must be string literals, so ' +
+                'they can be extracted for translation.',
+        },
+
+        schema: [],
+    },
+
+    create(context) {
+        return {
+            CallExpression(node: ESTree.CallExpression) {
+                const name = getGettextCallName(context, node);
+
+                if (name === null) {
+                    return;
+                }
+
+                for (const index of gettextFunctions[name].stringArgs) {
+                    const arg = node.arguments[index];
+
+                    if (arg &&
+                        arg.type !== 'SpreadElement' &&
+                        getStaticString(arg) === null) {
+                        context.report({
+                            data: { name },
+                            messageId: 'nonLiteral',
+                            node: arg,
+                        });
+                    }
+                }
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
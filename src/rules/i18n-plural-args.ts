@@ -0,0 +1,89 @@
+/*
+ * Require plural gettext functions to receive all their arguments.
+ *
+ * `ngettext()` requires a singular string, a plural string, and a count.
+ * `npgettext()` requires a context before these. Leaving any out produces
+ * broken translations at runtime.
+ *
+ * For example:
+ *
+ *     ngettext('%s file', '%s files', count)
+ *     npgettext('review', '%s issue', '%s issues', count)
+ *
+ * Not:
+ *
+ *     ngettext('%s file', count)
+ *     npgettext('%s issue', '%s issues', count)
+ */
+
+'use strict';
+
+import type { Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+import {
+    getGlobalCallName,
+    gettextFunctions,
+} from '../utils/i18n';
+
+
+/*
+ * The descriptions of the arguments required by each plural function.
+ */
+const requiredArgs: {
+    [name: string]: string,
+} = {
+    ngettext: 'singular, plural, and count',
+    npgettext: 'context, singular, plural, and count',
+};
+
+
+export default {
+    meta: {
+        type: 'problem',
+
+        docs: {
+            description:
+                'Require ngettext() and npgettext() to receive singular, ' +
+                'plural, and count arguments',
+            recommended: false,
+        },
+
+        messages: {
+            wrongArgCount:
+                '{{name}}() requires {{numArgs}} arguments ({{args}}), but ' +
+                'got {{actual}}.',
+        },
+
+        schema: [],
+    },
+
+    create(context) {
+        return {
+            CallExpression(node: ESTree.CallExpression) {
+                const name = getGlobalCallName(context, node,
+                                               Object.keys(requiredArgs));
+
+                if (name === null ||
+                    node.arguments.some(arg => arg.type === 'SpreadElement')) {
+                    return;
+                }
+
+                const numArgs = gettextFunctions[name].numArgs;
+
+                if (node.arguments.length !== numArgs) {
+                    context.report({
+                        data: {
+                            actual: String(node.arguments.length),
+                            args: requiredArgs[name],
+                            name,
+                            numArgs: String(numArgs),
+                        },
+                        messageId: 'wrongArgCount',
+                        node,
+                    });
+                }
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
@@ -0,0 +1,490 @@
+/*
+ * Require imports to be grouped and ordered.
+ *
+ * Imports are placed into groups, which must appear in order and be
+ * separated by a blank line. By default, these are:
+ *
+ * 1. Node built-in modules
+ * 2. Third-party packages
+ * 3. `@beanbag/*` packages
+ * 4. Relative imports
+ *
+ * Named specifiers within each import must also be sorted.
+ *
+ * For example:
+ *
+ *     import * as fs from 'node:fs';
+ *
+ *     import _ from 'underscore';
+ *     import { Foo, bar } from 'some-package';
+ *
+ *     import { spina } from '@beanbag/spina';
+ *
+ *     import { MyView } from './myView';
+ *
+ * Not:
+ *
+ *     import { MyView } from './myView';
+ *     import { spina } from '@beanbag/spina';
+ *     import { bar, Foo } from 'some-package';
+ *     import _ from 'underscore';
+ *     import * as fs from 'node:fs';
+ *
+ * The order of imports within a group is left alone.
+ */
+
+'use strict';
+
+import { builtinModules } from 'node:module';
+
+import type { AST, Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+
+/*
+ * A group definition.
+ *
+ * This is either a single pattern or a list of patterns. Patterns are
+ * `builtin`, `external`, `relative`, or a module name where `*` matches any
+ * characters (such as `@beanbag/*`).
+ */
+type ImportGroup = string | string[];
+
+
+/*
+ * The default groups.
+ */
+const defaultGroups: ImportGroup[] = [
+    'builtin',
+    'external',
+    '@beanbag/*',
+    'relative',
+];
+
+
+/*
+ * The names of all Node built-in modules.
+ */
+const builtinModuleNames = new Set(builtinModules);
+
+
+/*
+ * An import and the text that moves along with it.
+ */
+interface ImportEntry {
+    /* The index of the group the import belongs to. */
+    groupIndex: number;
+
+    /* The import declaration. */
+    node: ESTree.ImportDeclaration;
+
+    /* The range of the import and its attached comments. */
+    range: AST.Range;
+}
+
+
+/**
+ * Return the kind of a module source.
+ *
+ * Args:
+ *     source (string):
+ *         The module being imported.
+ *
+ * Returns:
+ *     string:
+ *     ``builtin``, ``relative``, or ``external``.
+ */
+function getSourceKind(
+    source: string,
+): string {
+    if (source.startsWith('.')) {
+        return 'relative';
+    } else if (source.startsWith('node:') ||
+               builtinModuleNames.has(source)) {
+        return 'builtin';
+    }
+
+    return 'external';
+}
+
+
+/**
+ * Return a regex matching a module name pattern.
+ *
+ * Args:
+ *     pattern (string):
+ *         The pattern, where ``*`` matches any characters.
+ *
+ * Returns:
+ *     RegExp:
+ *     The regex for the pattern.
+ */
+function getPatternRE(
+    pattern: string,
+): RegExp {
+    const escaped = pattern
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\/]/g, '\\$&'))
+        .join('.*');
+
+    return new RegExp(`^${escaped}$`);
+}
+
+
+/**
+ * Return the name of a specifier, for sorting.
+ *
+ * Args:
+ *     specifier (ESTree.ImportSpecifier):
+ *         The specifier.
+ *
+ * Returns:
+ *     string:
+ *     The name of the imported binding.
+ */
+function getSpecifierName(
+    specifier: ESTree.ImportSpecifier,
+): string {
+    const imported = specifier.imported;
+
+    return (imported.type === 'Identifier'
+            ? imported.name
+            : String(imported.value));
+}
+
+
+export default {
+    meta: {
+        type: 'layout',
+
+        defaultOptions: [
+            {
+                groups: defaultGroups,
+            },
+        ],
+
+        docs: {
+            description: 'Require imports to be grouped and ordered',
+            recommended: false,
+        },
+
+        fixable: 'code',
+
+        messages: {
+            missingBlankLine:
+                'Expected a blank line between import groups, before ' +
+                "'{{source}}'.",
+            outOfOrder:
+                "'{{source}}' should be imported before '{{prevSource}}'.",
+            unsortedSpecifiers:
+                "Imported names should be sorted. Expected '{{name}}' " +
+                "before '{{prevName}}'.",
+        },
+
+        schema: [
+            {
+                additionalProperties: false,
+                properties: {
+                    groups: {
+                        items: {
+                            oneOf: [
+                                {
+                                    type: 'string',
+                                },
+                                {
+                                    items: {
+                                        type: 'string',
+                                    },
+                                    minItems: 1,
+                                    type: 'array',
+                                },
+                            ],
+                        },
+                        type: 'array',
+                    },
+                },
+                type: 'object',
+            },
+        ],
+    },
+
+    create(context) {
+        const [{ groups }] = context.options as [{ groups: ImportGroup[] }];
+        const sourceCode = context.sourceCode;
+
+        /*
+         * Patterns for each group, checked in order. Sources not matching
+         * a module name pattern fall back to the kind-based groups.
+         */
+        const groupPatterns: [RegExp, number][] = [];
+        const kindGroups = new Map<string, number>();
+
+        groups.forEach((group, i) => {
+            for (const pattern of (Array.isArray(group) ? group : [group])) {
+                if (pattern === 'builtin' ||
+                    pattern === 'external' ||
+                    pattern === 'relative') {
+                    kindGroups.set(pattern, i);
+                } else {
+                    groupPatterns.push([getPatternRE(pattern), i]);
+                }
+            }
+        });
+
+        /**
+         * Return the index of the group for a module source.
+         *
+         * Args:
+         *     source (string):
+         *         The module being imported.
+         *
+         * Returns:
+         *     number:
+         *     The group index. Sources not matching any group are placed
+         *     after all groups.
+         */
+        function getGroupIndex(
+            source: string,
+        ): number {
+            const kind = getSourceKind(source);
+
+            if (kind !== 'relative') {
+                for (const [patternRE, i] of groupPatterns) {
+                    if (patternRE.test(source)) {
+                        return i;
+                    }
+                }
+            }
+
+            return kindGroups.get(kind) ?? groups.length;
+        }
+
+        /**
+         * Return the range of an import, including attached comments.
+         *
+         * Comments on their own lines directly above the import, and
+         * comments after it on the same line, move along with it.
+         *
+         * Args:
+         *     node (ESTree.ImportDeclaration):
+         *         The import.
+         *
+         *     includeLeading (boolean):
+         *         Whether to include comments above the import. This is
+         *         ``false`` for the first import, whose comments usually
+         *         describe the imports as a whole.
+         *
+         * Returns:
+         *     AST.Range:
+         *     The range of the import.
+         */
+        function getImportRange(
+            node: ESTree.ImportDeclaration,
+            includeLeading: boolean,
+        ): AST.Range {
+            let [start, end] = node.range;
+            let line = node.loc.start.line;
+            const leadingComments = (includeLeading
+                                     ? sourceCode.getCommentsBefore(node)
+                                     : []);
+
+            for (const comment of leadingComments.slice().reverse()) {
+                if (comment.loc.end.line !== line - 1 ||
+                    sourceCode.getTokenBefore(comment, {
+                        includeComments: true,
+                    })?.loc.end.line === comment.loc.start.line) {
+                    break;
+                }
+
+                start = comment.range[0];
+                line = comment.loc.start.line;
+            }
+
+            for (const comment of sourceCode.getCommentsAfter(node)) {
+                if (comment.loc.start.line !== node.loc.end.line) {
+                    break;
+                }
+
+                end = comment.range[1];
+            }
+
+            return [start, end];
+        }
+
+        /**
+         * Check the order of the specifiers in an import.
+         *
+         * Args:
+         *     node (ESTree.ImportDeclaration):
+         *         The import to check.
+         */
+        function checkSpecifiers(
+            node: ESTree.ImportDeclaration,
+        ) {
+            const specifiers = node.specifiers.filter(
+                specifier => specifier.type === 'ImportSpecifier');
+            const sorted = specifiers.slice().sort((a, b) => {
+                const aName = getSpecifierName(a);
+                const bName = getSpecifierName(b);
+
+                return (aName < bName ? -1 : (aName > bName ? 1 : 0));
+            });
+            const badIndex = sorted.findIndex(
+                (specifier, i) => specifier !== specifiers[i]);
+
+            if (badIndex === -1) {
+                return;
+            }
+
+            const hasComments =
+                (sourceCode.getCommentsInside(node).length > 0);
+
+            context.report({
+                data: {
+                    name: getSpecifierName(sorted[badIndex]),
+                    prevName: getSpecifierName(specifiers[badIndex]),
+                },
+                fix: (hasComments
+                      ? null
+                      : fixer => specifiers.map(
+                          (specifier, i) => fixer.replaceText(
+                              specifier,
+                              sourceCode.getText(sorted[i])))),
+                messageId: 'unsortedSpecifiers',
+                node: sorted[badIndex],
+            });
+        }
+
+        /**
+         * Return the text for a sorted list of imports.
+         *
+         * Args:
+         *     entries (Array of ImportEntry):
+         *         The imports, in their new order.
+         *
+         * Returns:
+         *     string:
+         *     The text of the imports, with a blank line between groups.
+         */
+        function getSortedText(
+            entries: ImportEntry[],
+        ): string {
+            return entries.map((entry, i) => {
+                const text = sourceCode.text.slice(entry.range[0],
+                                                   entry.range[1]);
+
+                return (i > 0 && entry.groupIndex !== entries[i - 1].groupIndex
+                        ? `\n${text}`
+                        : text);
+            }).join('\n');
+        }
+
+        /**
+         * Check the grouping and order of a run of imports.
+         *
+         * Args:
+         *     imports (Array of ESTree.ImportDeclaration):
+         *         The consecutive imports to check.
+         */
+        function checkImports(
+            imports: ESTree.ImportDeclaration[],
+        ) {
+            const entries: ImportEntry[] = imports.map((node, i) => ({
+                groupIndex: getGroupIndex(String(node.source.value)),
+                node,
+                range: getImportRange(node, i > 0),
+            }));
+            const fullRange: AST.Range = [
+                entries[0].range[0],
+                entries.at(-1).range[1],
+            ];
+
+            /*
+             * Comments that aren't attached to an import would be lost when
+             * reordering, so we only fix when there are none.
+             */
+            const canFix = sourceCode.getAllComments().every(comment => {
+                const [start, end] = comment.range;
+
+                return (end <= fullRange[0] ||
+                        start >= fullRange[1] ||
+                        entries.some(entry => (start >= entry.range[0] &&
+                                               end <= entry.range[1])));
+            });
+
+            for (let i = 1; i < entries.length; i++) {
+                const prev = entries[i - 1];
+                const entry = entries[i];
+
+                if (entry.groupIndex < prev.groupIndex) {
+                    const laterEntry = entries.find(
+                        other => other.groupIndex > entry.groupIndex);
+
+                    /* Sorting is stable, so order within groups is kept. */
+                    const sorted = entries.slice().sort(
+                        (a, b) => a.groupIndex - b.groupIndex);
+
+                    context.report({
+                        data: {
+                            prevSource: String(laterEntry.node.source.value),
+                            source: String(entry.node.source.value),
+                        },
+                        fix: (canFix
+                              ? fixer => fixer.replaceTextRange(
+                                  fullRange,
+                                  getSortedText(sorted))
+                              : null),
+                        messageId: 'outOfOrder',
+                        node: entry.node,
+                    });
+
+                    /* The fix above takes care of the rest. */
+                    return;
+                }
+            }
+
+            for (let i = 1; i < entries.length; i++) {
+                const prev = entries[i - 1];
+                const entry = entries[i];
+                const prevEndLine =
+                    sourceCode.getLocFromIndex(prev.range[1]).line;
+                const startLine =
+                    sourceCode.getLocFromIndex(entry.range[0]).line;
+
+                if (entry.groupIndex !== prev.groupIndex &&
+                    startLine - prevEndLine < 2) {
+                    context.report({
+                        data: {
+                            source: String(entry.node.source.value),
+                        },
+                        fix: fixer => fixer.insertTextAfterRange(
+                            prev.range, '\n'),
+                        messageId: 'missingBlankLine',
+                        node: entry.node,
+                    });
+                }
+            }
+        }
+
+        return {
+            ImportDeclaration: checkSpecifiers,
+
+            Program(node: ESTree.Program) {
+                let run: ESTree.ImportDeclaration[] = [];
+
+                for (const statement of node.body) {
+                    if (statement.type === 'ImportDeclaration') {
+                        run.push(statement);
+                    } else if (run.length > 0) {
+                        checkImports(run);
+                        run = [];
+                    }
+                }
+
+                if (run.length > 0) {
+                    checkImports(run);
+                }
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
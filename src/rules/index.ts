@@ -0,0 +1,70 @@
+/*
+ * Custom rules for Beanbag codebases.
+ *
+ * Each rule lives in its own module in this directory, and is registered
+ * here under the name it's referenced by in the `@beanbag/` namespace. For
+ * example, a rule registered as `my-rule` is enabled in a configuration as
+ * `@beanbag/my-rule`.
+ *
+ * Every rule must have a matching test suite in `tests/rules/`.
+ */
+
+'use strict';
+
+import type { Rule } from 'eslint';
+
+import backboneEvents from './backbone-events';
+import backbonePreferListenTo from './backbone-prefer-listento';
+import commentWrap from './comment-wrap';
+import dedent from './dedent';
+import docstrings from './docstrings';
+import fallthroughComment from './fallthrough-comment';
+import i18nContext from './i18n-context';
+import i18nInterpolate from './i18n-interpolate';
+import i18nLiteralStrings from './i18n-literal-strings';
+import i18nPluralArgs from './i18n-plural-args';
+import importOrder from './import-order';
+import jasminePreferAsync from './jasmine-prefer-async';
+import jasmineSpyUsage from './jasmine-spy-usage';
+import jasmineSuiteStructure from './jasmine-suite-structure';
+import jasmineUseScratch from './jasmine-use-scratch';
+import jqueryNaming from './jquery-naming';
+import maxLen from './max-len';
+import moduleHeader from './module-header';
+import noUnescapedHTMLInterpolation from './no-unescaped-html-interpolation';
+import sortKeys from './sort-keys';
+import spina from './spina';
+import topLevelSpacing from './top-level-spacing';
+import translatorComments from './translator-comments';
+
+
+/*
+ * The registry of all custom rules, keyed by rule name.
+ */
+export const rules: {
+    [name: string]: Rule.RuleModule,
+} = {
+    'backbone-events': backboneEvents,
+    'backbone-prefer-listento': backbonePreferListenTo,
+    'comment-wrap': commentWrap,
+    'dedent': dedent,
+    'docstrings': docstrings,
+    'fallthrough-comment': fallthroughComment,
+    'i18n-context': i18nContext,
+    'i18n-interpolate': i18nInterpolate,
+    'i18n-literal-strings': i18nLiteralStrings,
+    'i18n-plural-args': i18nPluralArgs,
+    'import-order': importOrder,
+    'jasmine-prefer-async': jasminePreferAsync,
+    'jasmine-spy-usage': jasmineSpyUsage,
+    'jasmine-suite-structure': jasmineSuiteStructure,
+    'jasmine-use-scratch': jasmineUseScratch,
+    'jquery-naming': jqueryNaming,
+    'max-len': maxLen,
+    'module-header': moduleHeader,
+    'no-unescaped-html-interpolation': noUnescapedHTMLInterpolation,
+    'sort-keys': sortKeys,
+    'spina': spina,
+    'top-level-spacing': topLevelSpacing,
+    'translator-comments': translatorComments,
+};
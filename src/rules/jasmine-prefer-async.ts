@@ -0,0 +1,395 @@
+/*
+ * Require specs to use async functions instead of `done` callbacks.
+ *
+ * Specs and setup functions that take a `done` callback hang until Jasmine's
+ * timeout if `done()` is never called, such as when a promise is rejected or
+ * an exception is thrown inside a callback. Async functions fail right away
+ * instead.
+ *
+ * For example:
+ *
+ *     it('Saves', async function() {
+ *         await model.save();
+ *
+ *         expect(model.isNew()).toBeFalse();
+ *     });
+ *
+ * Not:
+ *
+ *     it('Saves', function(done) {
+ *         model.save()
+ *             .then(() => expect(model.isNew()).toBeFalse())
+ *             .then(done);
+ *     });
+ *
+ * Jasmine passes a `done` callback to any function that takes a single
+ * parameter, so that parameter is treated as the callback whatever it's
+ * named. Functions taking more than one parameter aren't Jasmine callbacks,
+ * and are ignored.
+ *
+ * Functions that only call `done()` at the end of a promise chain are
+ * autofixed.
+ */
+
+'use strict';
+
+import * as path from 'node:path';
+
+import { minimatch } from 'minimatch';
+import type { AST, Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+
+/*
+ * The default patterns for files supporting async functions.
+ *
+ * Flat configurations built with `createConfig()` replace these with the
+ * ES6 and TypeScript patterns, and only enable the rule for test files.
+ */
+const defaultFiles = [
+    '**/*Tests.es6.{js,jsx}',
+    '**/*Tests.{ts,tsx}',
+];
+
+
+/*
+ * The Jasmine functions that take specs or setup functions.
+ */
+const specFunctionNames = new Set([
+    'afterAll',
+    'afterEach',
+    'beforeAll',
+    'beforeEach',
+    'fit',
+    'it',
+    'xit',
+]);
+
+
+/*
+ * A function passed to a Jasmine function.
+ */
+type SpecFunction = ESTree.ArrowFunctionExpression | ESTree.FunctionExpression;
+
+
+/**
+ * Return whether a node calls the `done` callback with no arguments.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The node to check.
+ *
+ *     doneName (string):
+ *         The name of the callback.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the node is a call to the callback.
+ */
+function isDoneCall(
+    node: ESTree.Node,
+    doneName: string,
+): boolean {
+    return (node.type === 'CallExpression' &&
+            node.callee.type === 'Identifier' &&
+            node.callee.name === doneName &&
+            node.arguments.length === 0);
+}
+
+
+/**
+ * Return whether a node is equivalent to passing the `done` callback.
+ *
+ * This matches `done`, `() => done()`, and functions whose body only
+ * calls `done()`.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The node to check.
+ *
+ *     doneName (string):
+ *         The name of the callback.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the node only calls the callback.
+ */
+function isDoneHandler(
+    node: ESTree.Node,
+    doneName: string,
+): boolean {
+    if (node.type === 'Identifier') {
+        return node.name === doneName;
+    } else if ((node.type !== 'ArrowFunctionExpression' &&
+                node.type !== 'FunctionExpression') ||
+               node.params.length > 0) {
+        return false;
+    }
+
+    const body = node.body;
+
+    if (body.type !== 'BlockStatement') {
+        return isDoneCall(body, doneName);
+    }
+
+    return (body.body.length === 1 &&
+            body.body[0].type === 'ExpressionStatement' &&
+            isDoneCall(body.body[0].expression, doneName));
+}
+
+
+/**
+ * Return whether a node is `done.fail`.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The node to check.
+ *
+ *     doneName (string):
+ *         The name of the callback.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the node refers to the callback's ``fail()`` method.
+ */
+function isDoneFail(
+    node: ESTree.Node,
+    doneName: string,
+): boolean {
+    return (node.type === 'MemberExpression' &&
+            !node.computed &&
+            node.object.type === 'Identifier' &&
+            node.object.name === doneName &&
+            node.property.type === 'Identifier' &&
+            node.property.name === 'fail');
+}
+
+
+/**
+ * Return the final `.then(done)` call in a function.
+ *
+ * Args:
+ *     fn (SpecFunction):
+ *         The spec function.
+ *
+ *     doneName (string):
+ *         The name of the callback.
+ *
+ * Returns:
+ *     ESTree.SimpleCallExpression:
+ *     The call to ``then()`` in the last statement of the function, or
+ *     ``null`` if the function doesn't end with a promise chain that calls
+ *     the callback.
+ */
+function getFinalThenCall(
+    fn: SpecFunction,
+    doneName: string,
+): ESTree.SimpleCallExpression | null {
+    if (fn.body.type !== 'BlockStatement' || fn.body.body.length === 0) {
+        return null;
+    }
+
+    const statement = fn.body.body.at(-1);
+
+    if (statement.type !== 'ExpressionStatement' ||
+        statement.expression.type !== 'CallExpression') {
+        return null;
+    }
+
+    const call = statement.expression;
+    const callee = call.callee;
+    const args = call.arguments;
+
+    if (callee.type !== 'MemberExpression' ||
+        callee.computed ||
+        callee.property.type !== 'Identifier' ||
+        callee.property.name !== 'then' ||
+        args.length === 0 ||
+        args.length > 2 ||
+        !isDoneHandler(args[0], doneName) ||
+        (args.length === 2 && !isDoneFail(args[1], doneName))) {
+        return null;
+    }
+
+    return call;
+}
+
+
+export default {
+    meta: {
+        type: 'suggestion',
+
+        defaultOptions: [
+            {
+                files: defaultFiles,
+            },
+        ],
+
+        docs: {
+            description:
+                'Require specs to use async functions instead of done ' +
+                'callbacks',
+            recommended: false,
+        },
+
+        fixable: 'code',
+
+        messages: {
+            preferAsync:
+                "Use an async function instead of the '{{name}}' callback. " +
+                'A missed call or an unhandled rejection hangs the suite ' +
+                'until it times out.',
+        },
+
+        schema: [
+            {
+                additionalProperties: false,
+                properties: {
+                    files: {
+                        items: {
+                            type: 'string',
+                        },
+                        type: 'array',
+                    },
+                },
+                type: 'object',
+            },
+        ],
+    },
+
+    create(context) {
+        const [{ files }] = context.options;
+        const filename = path.relative(context.cwd, context.filename)
+            .split(path.sep)
+            .join('/');
+
+        if (!files.some(pattern => minimatch(filename, pattern, {
+            dot: true,
+        }))) {
+            return {};
+        }
+
+        const sourceCode = context.sourceCode;
+
+        /**
+         * Return a fix converting a spec function to an async function.
+         *
+         * Args:
+         *     fn (SpecFunction):
+         *         The spec function.
+         *
+         *     param (ESTree.Identifier):
+         *         The ``done`` parameter.
+         *
+         * Returns:
+         *     function:
+         *     The fix, or ``null`` if the function can't be safely
+         *     converted.
+         */
+        function getFix(
+            fn: SpecFunction,
+            param: ESTree.Identifier,
+        ): Rule.ReportFixer | null {
+            const thenCall = getFinalThenCall(fn, param.name);
+
+            if (thenCall === null) {
+                return null;
+            }
+
+            /* Every use of the callback must be in the final `then()`. */
+            const variable = sourceCode.getDeclaredVariables(fn)
+                .find(v => v.name === param.name);
+            const argsStart = thenCall.arguments[0].range[0];
+            const argsEnd = thenCall.arguments.at(-1).range[1];
+
+            if (!variable.references.every(ref => (
+                ref.identifier.range[0] >= argsStart &&
+                ref.identifier.range[1] <= argsEnd))) {
+                return null;
+            }
+
+            /*
+             * The promise's text runs up to the token before the `.then`,
+             * keeping any parentheses around it.
+             */
+            const callee = thenCall.callee as ESTree.MemberExpression;
+            const dotToken = sourceCode.getTokenBefore(callee.property);
+            const promiseEnd = sourceCode.getTokenBefore(dotToken).range[1];
+            const promiseText = sourceCode.text.slice(thenCall.range[0],
+                                                      promiseEnd);
+
+            /* Comments in the chain after the promise would be lost. */
+            if (sourceCode.getCommentsInside(thenCall).some(
+                comment => comment.range[0] >= promiseEnd)) {
+                return null;
+            }
+
+            const openParen = sourceCode.getTokenBefore(param);
+            let paramsRange: AST.Range = param.range;
+
+            /* Arrow functions may leave out the parentheses. */
+            if (openParen.value === '(' &&
+                openParen.range[0] >= fn.range[0]) {
+                let closeParen = sourceCode.getTokenAfter(param);
+
+                if (closeParen.value === ',') {
+                    closeParen = sourceCode.getTokenAfter(closeParen);
+                }
+
+                paramsRange = [openParen.range[0], closeParen.range[1]];
+            }
+
+            return fixer => {
+                const fixes = [
+                    fixer.replaceText(thenCall, `await ${promiseText}`),
+                ];
+
+                /* Arrow functions start with their parameters. */
+                if (fn.type === 'ArrowFunctionExpression') {
+                    fixes.push(fixer.replaceTextRange(paramsRange,
+                                                      'async ()'));
+                } else {
+                    fixes.push(
+                        fixer.insertTextBefore(fn, 'async '),
+                        fixer.replaceTextRange(paramsRange, '()'));
+                }
+
+                return fixes;
+            };
+        }
+
+        return {
+            CallExpression(node: ESTree.CallExpression) {
+                if (node.callee.type !== 'Identifier' ||
+                    !specFunctionNames.has(node.callee.name)) {
+                    return;
+                }
+
+                const fn = node.arguments.find(
+                    arg => (arg.type === 'ArrowFunctionExpression' ||
+                            arg.type === 'FunctionExpression'),
+                ) as SpecFunction;
+
+                /* Jasmine only passes `done` to single-parameter functions. */
+                if (fn === undefined || fn.async || fn.params.length !== 1) {
+                    return;
+                }
+
+                const param = fn.params[0];
+
+                if (param.type !== 'Identifier') {
+                    return;
+                }
+
+                context.report({
+                    data: {
+                        name: param.name,
+                    },
+                    fix: getFix(fn, param),
+                    messageId: 'preferAsync',
+                    node: param,
+                });
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
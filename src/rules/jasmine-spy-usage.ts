@@ -0,0 +1,803 @@
+/*
+ * Require spy matchers to be used on spies, and spies to be set up first.
+ *
+ * Spy matchers like `toHaveBeenCalled()` throw a confusing error at runtime
+ * when used on a function that was never spied on. Configuring a spy after
+ * the first `expect()` in a spec usually means the code being tested has
+ * already run, so the configuration has no effect.
+ *
+ * For example:
+ *
+ *     beforeEach(function() {
+ *         spyOn(view, 'render');
+ *     });
+ *
+ *     it('Renders', function() {
+ *         spyOn(model, 'save').and.resolveTo();
+ *         view.save();
+ *
+ *         expect(view.render).toHaveBeenCalled();
+ *         expect(model.save).toHaveBeenCalled();
+ *     });
+ *
+ * Not:
+ *
+ *     it('Renders', function() {
+ *         view.save();
+ *
+ *         expect(view.render).toHaveBeenCalled();
+ *
+ *         spyOn(model, 'save').and.resolveTo();
+ *     });
+ *
+ * Spies are tracked through `spyOn()`, `spyOnAllFunctions()`,
+ * `jasmine.createSpy()`, and `jasmine.createSpyObj()` in the spec, the
+ * `beforeEach()` and `beforeAll()` functions of its suites, and the suites
+ * themselves. Specs using spies that can't be tracked (such as spies passed
+ * directly to a function) aren't checked for spy matchers.
+ */
+
+'use strict';
+
+import type { Rule, Scope } from 'eslint';
+import type * as ESTree from 'estree';
+
+
+/*
+ * The functions defining groups of specs.
+ */
+const groupNames = new Set([
+    'describe',
+    'fdescribe',
+    'suite',
+    'xdescribe',
+]);
+
+
+/*
+ * The functions defining specs.
+ */
+const specNames = new Set([
+    'fit',
+    'it',
+    'xit',
+]);
+
+
+/*
+ * The functions defining setup that runs before specs.
+ */
+const setupNames = new Set([
+    'beforeAll',
+    'beforeEach',
+]);
+
+
+/*
+ * The functions defining teardown that runs after specs.
+ */
+const teardownNames = new Set([
+    'afterAll',
+    'afterEach',
+]);
+
+
+/*
+ * Matchers that can only be used on spies.
+ */
+const spyMatchers = new Set([
+    'toHaveBeenCalled',
+    'toHaveBeenCalledBefore',
+    'toHaveBeenCalledOnceWith',
+    'toHaveBeenCalledTimes',
+    'toHaveBeenCalledWith',
+]);
+
+
+/*
+ * TypeScript expressions that wrap a value without changing it.
+ */
+const typeWrapperTypes = new Set([
+    'TSAsExpression',
+    'TSNonNullExpression',
+    'TSSatisfiesExpression',
+    'TSTypeAssertion',
+]);
+
+
+/*
+ * A TypeScript expression wrapping another expression.
+ *
+ * These aren't part of ESTree, so only the parts used here are described.
+ */
+interface TypeWrapper {
+    expression: ESTree.Node;
+}
+
+
+/*
+ * A function passed to a Jasmine function.
+ */
+type BlockFunction =
+    ESTree.ArrowFunctionExpression |
+    ESTree.FunctionExpression;
+
+
+/*
+ * The kind of a Jasmine block.
+ */
+type BlockKind = 'group' | 'setup' | 'spec' | 'teardown';
+
+
+/*
+ * Information on a function passed to a Jasmine function.
+ */
+interface Block {
+    /* The kind of block. */
+    kind: BlockKind;
+
+    /* The block containing this one, or null for top-level blocks. */
+    parent: BlockFunction | null;
+}
+
+
+/*
+ * A spy created in the file.
+ */
+interface SpyDefinition {
+    /*
+     * How the spy is referenced.
+     *
+     * `path` spies are referenced through `name`. `object` spies are any
+     * members of `name`. `method` spies are any method called `name`, for
+     * spies on prototypes.
+     */
+    kind: 'method' | 'object' | 'path';
+
+    /* The name or path, or null if the spy can't be tracked. */
+    name: string | null;
+
+    /* The node creating the spy. */
+    node: ESTree.Node;
+
+    /* The block containing the spy, or null if outside any block. */
+    owner: BlockFunction | null;
+}
+
+
+/*
+ * A use of a spy matcher.
+ */
+interface SpyMatcherUse {
+    /* The name of the matcher. */
+    matcher: string;
+
+    /* The block containing the matcher, or null if outside any block. */
+    owner: BlockFunction | null;
+
+    /* The value being checked. */
+    target: ESTree.Node;
+}
+
+
+/**
+ * Return the name of the function called by a node.
+ *
+ * This returns names like `spyOn` and `jasmine.createSpy`.
+ *
+ * Args:
+ *     node (ESTree.CallExpression):
+ *         The call to check.
+ *
+ * Returns:
+ *     string:
+ *     The name of the function, or ``null`` if it isn't a plain function
+ *     or ``jasmine.*`` call.
+ */
+function getCallName(
+    node: ESTree.CallExpression,
+): string | null {
+    const callee = node.callee;
+
+    if (callee.type === 'Identifier') {
+        return callee.name;
+    } else if (callee.type === 'MemberExpression' &&
+               !callee.computed &&
+               callee.object.type === 'Identifier' &&
+               callee.object.name === 'jasmine' &&
+               callee.property.type === 'Identifier') {
+        return `jasmine.${callee.property.name}`;
+    }
+
+    return null;
+}
+
+
+/**
+ * Return the name of a non-computed property being accessed.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The node to check.
+ *
+ * Returns:
+ *     string:
+ *     The property name, or ``null`` if the node isn't a member expression
+ *     with a plain property name.
+ */
+function getPropertyName(
+    node: ESTree.Node,
+): string | null {
+    return (node.type === 'MemberExpression' &&
+            !node.computed &&
+            node.property.type === 'Identifier'
+            ? node.property.name
+            : null);
+}
+
+
+/**
+ * Return the name of the matcher used on an `expect()` call.
+ *
+ * Args:
+ *     node (ESTree.CallExpression):
+ *         The ``expect()`` call.
+ *
+ * Returns:
+ *     string:
+ *     The name of the matcher, skipping any ``.not``, or ``null`` if there
+ *     isn't one.
+ */
+function getMatcherName(
+    node: ESTree.CallExpression & Rule.NodeParentExtension,
+): string | null {
+    let current = node.parent;
+
+    while (getPropertyName(current) === 'not') {
+        current = current.parent;
+    }
+
+    return getPropertyName(current);
+}
+
+
+/**
+ * Return whether a node is a TypeScript expression wrapping a value.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The node to check.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the node wraps another expression without changing it.
+ */
+function isTypeWrapper(
+    node: ESTree.Node,
+): node is ESTree.Node & TypeWrapper {
+    return typeWrapperTypes.has(node.type) && 'expression' in node;
+}
+
+
+/**
+ * Return a path for a value.
+ *
+ * Paths are built from identifiers, `this`, and property accesses, such as
+ * `this.view.render`.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The node to build a path for.
+ *
+ * Returns:
+ *     string:
+ *     The path, or ``null`` if the value can't be represented as one.
+ */
+function getPath(
+    node: ESTree.Node,
+): string | null {
+    if (isTypeWrapper(node)) {
+        return getPath(node.expression);
+    }
+
+    switch (node.type) {
+        case 'Identifier':
+            return node.name;
+
+        case 'ThisExpression':
+            return 'this';
+
+        case 'MemberExpression': {
+            const objectPath = getPath(node.object);
+            const property = node.property;
+            let name: string | null = null;
+
+            if (!node.computed && property.type === 'Identifier') {
+                name = property.name;
+            } else if (property.type === 'Literal' &&
+                       typeof property.value === 'string') {
+                name = property.value;
+            }
+
+            return (objectPath !== null && name !== null
+                    ? `${objectPath}.${name}`
+                    : null);
+        }
+
+        default:
+            return null;
+    }
+}
+
+
+/**
+ * Return the outermost expression evaluating to a spy.
+ *
+ * Spy configuration like `spyOn(...).and.returnValue(...)` returns the spy,
+ * so the whole chain refers to the same spy.
+ *
+ * Args:
+ *     node (ESTree.CallExpression):
+ *         The call creating the spy.
+ *
+ * Returns:
+ *     ESTree.Node:
+ *     The outermost ``.and.*()`` call on the spy, or the node itself.
+ */
+function getSpyExpression(
+    node: ESTree.CallExpression & Rule.NodeParentExtension,
+): ESTree.Node & Rule.NodeParentExtension {
+    let current: ESTree.Node & Rule.NodeParentExtension = node;
+
+    while (getPropertyName(current.parent) === 'and') {
+        const method = current.parent.parent;
+
+        if (method.type !== 'MemberExpression' ||
+            method.parent.type !== 'CallExpression' ||
+            method.parent.callee !== method) {
+            break;
+        }
+
+        current = method.parent;
+    }
+
+    return current;
+}
+
+
+/**
+ * Return the path a value is assigned to.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The value being assigned.
+ *
+ * Returns:
+ *     string:
+ *     The path of the variable or property being assigned to, or ``null``
+ *     if the value isn't assigned to a path.
+ */
+function getAssignedPath(
+    node: ESTree.Node & Rule.NodeParentExtension,
+): string | null {
+    const parent = node.parent;
+
+    if (parent.type === 'VariableDeclarator' && parent.init === node) {
+        return getPath(parent.id);
+    } else if (parent.type === 'AssignmentExpression' &&
+               parent.right === node) {
+        return getPath(parent.left);
+    } else if (parent.type === 'Property' &&
+               parent.value === node &&
+               parent.parent.type === 'ObjectExpression') {
+        const objectPath = getAssignedPath(
+            parent.parent as ESTree.ObjectExpression &
+            Rule.NodeParentExtension);
+        const name = getPath(parent.key);
+
+        return (objectPath !== null && !parent.computed && name !== null
+                ? `${objectPath}.${name}`
+                : null);
+    }
+
+    return null;
+}
+
+
+export default {
+    meta: {
+        type: 'problem',
+
+        docs: {
+            description:
+                'Require spy matchers to be used on spies, and spies to be ' +
+                'set up before the first expect()',
+            recommended: false,
+        },
+
+        messages: {
+            configAfterExpect:
+                "Spies must be set up before the first 'expect()' in a " +
+                "spec, or the code being tested won't use them.",
+            notASpy:
+                "'{{name}}' isn't spied on in this spec or its " +
+                "'beforeEach()' functions, so '{{matcher}}()' will fail.",
+        },
+
+        schema: [],
+    },
+
+    create(context) {
+        const sourceCode = context.sourceCode;
+        const blocks = new Map<BlockFunction, Block>();
+        const spies: SpyDefinition[] = [];
+        const matcherUses: SpyMatcherUse[] = [];
+        const expectCalls: ESTree.CallExpression[] = [];
+        const configCalls: ESTree.CallExpression[] = [];
+
+        /**
+         * Return the Jasmine block containing a node.
+         *
+         * Args:
+         *     node (ESTree.Node):
+         *         The node to find the block for.
+         *
+         * Returns:
+         *     BlockFunction:
+         *     The innermost function passed to a Jasmine function that
+         *     contains the node, or ``null`` if there isn't one.
+         */
+        function getOwner(
+            node: ESTree.Node,
+        ): BlockFunction | null {
+            const ancestors = sourceCode.getAncestors(node);
+
+            for (let i = ancestors.length - 1; i >= 0; i--) {
+                const ancestor = ancestors[i];
+
+                if ((ancestor.type === 'ArrowFunctionExpression' ||
+                     ancestor.type === 'FunctionExpression') &&
+                    blocks.has(ancestor)) {
+                    return ancestor;
+                }
+            }
+
+            return null;
+        }
+
+        /**
+         * Record a spy.
+         *
+         * Args:
+         *     node (ESTree.Node):
+         *         The node creating the spy.
+         *
+         *     kind (string):
+         *         How the spy is referenced.
+         *
+         *     name (string):
+         *         The name or path of the spy, or ``null`` if it can't be
+         *         tracked.
+         */
+        function addSpy(
+            node: ESTree.Node,
+            kind: SpyDefinition['kind'],
+            name: string | null,
+        ) {
+            spies.push({
+                kind,
+                name,
+                node,
+                owner: getOwner(node),
+            });
+        }
+
+        /**
+         * Record the spies created by a call.
+         *
+         * Args:
+         *     node (ESTree.CallExpression):
+         *         The call to check.
+         *
+         *     callName (string):
+         *         The name of the function being called.
+         */
+        function addSpies(
+            node: ESTree.CallExpression & Rule.NodeParentExtension,
+            callName: string,
+        ) {
+            const [objectArg, methodArg] = node.arguments;
+            const objectPath = (objectArg === undefined
+                                ? null
+                                : getPath(objectArg));
+            const assignedPath = getAssignedPath(getSpyExpression(node));
+
+            switch (callName) {
+                case 'spyOn': {
+                    const methodName = (
+                        methodArg?.type === 'Literal' &&
+                        typeof methodArg.value === 'string'
+                        ? methodArg.value
+                        : null);
+
+                    if (objectPath?.endsWith('.prototype') &&
+                        methodName !== null) {
+                        addSpy(node, 'method', methodName);
+                    } else {
+                        addSpy(node, 'path',
+                               (objectPath !== null && methodName !== null
+                                ? `${objectPath}.${methodName}`
+                                : null));
+                    }
+
+                    if (assignedPath !== null) {
+                        addSpy(node, 'path', assignedPath);
+                    }
+
+                    break;
+                }
+
+                case 'spyOnAllFunctions':
+                    addSpy(node, 'object', objectPath);
+                    break;
+
+                case 'jasmine.createSpy':
+                    addSpy(node, 'path', assignedPath);
+                    break;
+
+                case 'jasmine.createSpyObj':
+                    addSpy(node, 'object', assignedPath);
+                    break;
+
+                default:
+                    break;
+            }
+        }
+
+        /**
+         * Return whether a target is a parameter of a function.
+         *
+         * Values passed to helper functions can't be tracked.
+         *
+         * Args:
+         *     node (ESTree.Node):
+         *         The target of the matcher.
+         *
+         *     path (string):
+         *         The path of the target.
+         *
+         * Returns:
+         *     boolean:
+         *     ``true`` if the root of the path is a function parameter.
+         */
+        function isParameter(
+            node: ESTree.Node,
+            path: string,
+        ): boolean {
+            const rootName = path.split('.')[0];
+            let scope: Scope.Scope | null = sourceCode.getScope(node);
+
+            while (scope !== null) {
+                const variable = scope.set.get(rootName);
+
+                if (variable !== undefined) {
+                    return variable.defs.some(def => def.type === 'Parameter');
+                }
+
+                scope = scope.upper;
+            }
+
+            return false;
+        }
+
+        /**
+         * Return the spies available to code in a block.
+         *
+         * This includes spies created earlier in the block, spies in the
+         * groups containing it and their setup functions, and spies created
+         * outside of any block.
+         *
+         * Args:
+         *     owner (BlockFunction):
+         *         The block containing the code, or ``null``.
+         *
+         *     position (number):
+         *         The position of the code in the source.
+         *
+         * Returns:
+         *     Array of SpyDefinition:
+         *     The available spies.
+         */
+        function getAvailableSpies(
+            owner: BlockFunction | null,
+            position: number,
+        ): SpyDefinition[] {
+            const groups = new Set<BlockFunction>();
+
+            let block = owner;
+
+            while (block !== null) {
+                if (blocks.get(block).kind === 'group') {
+                    groups.add(block);
+                }
+
+                block = blocks.get(block).parent;
+            }
+
+            return spies.filter(spy => {
+                if (spy.owner === null) {
+                    return true;
+                } else if (spy.owner === owner) {
+                    return spy.node.range[0] < position;
+                }
+
+                const block = blocks.get(spy.owner);
+
+                /* Top-level setup functions run before every spec. */
+                return (groups.has(spy.owner) ||
+                        (block.kind === 'setup' &&
+                         (block.parent === null ||
+                          groups.has(block.parent))));
+            });
+        }
+
+        /**
+         * Check that a spy matcher is used on a spy.
+         *
+         * Args:
+         *     use (SpyMatcherUse):
+         *         The use of the matcher.
+         */
+        function checkMatcherUse(
+            use: SpyMatcherUse,
+        ) {
+            const { matcher, owner, target } = use;
+            const path = getPath(target);
+
+            if (path === null || isParameter(target, path)) {
+                return;
+            }
+
+            const available = getAvailableSpies(owner, target.range[0]);
+
+            if (available.some(spy => spy.name === null)) {
+                /* There are spies that can't be tracked. */
+                return;
+            }
+
+            const methodName = path.split('.').at(-1);
+            const isSpy = available.some(spy => {
+                switch (spy.kind) {
+                    case 'method':
+                        return path.includes('.') && spy.name === methodName;
+
+                    case 'object':
+                        return path.startsWith(`${spy.name}.`);
+
+                    default:
+                        return path === spy.name;
+                }
+            });
+
+            if (!isSpy) {
+                context.report({
+                    data: {
+                        matcher,
+                        name: path,
+                    },
+                    messageId: 'notASpy',
+                    node: target,
+                });
+            }
+        }
+
+        /**
+         * Check for spy configuration after the first `expect()` in specs.
+         */
+        function checkConfigOrder() {
+            const firstExpects = new Map<BlockFunction, number>();
+
+            for (const call of expectCalls) {
+                const owner = getOwner(call);
+
+                if (owner !== null &&
+                    blocks.get(owner).kind === 'spec' &&
+                    !firstExpects.has(owner)) {
+                    firstExpects.set(owner, call.range[0]);
+                }
+            }
+
+            for (const call of configCalls) {
+                const owner = getOwner(call);
+
+                /* Spy configuration outside of any block is never checked. */
+                if (owner === null) {
+                    continue;
+                }
+
+                const firstExpect = firstExpects.get(owner);
+
+                if (firstExpect !== undefined && call.range[0] > firstExpect) {
+                    context.report({
+                        messageId: 'configAfterExpect',
+                        node: call,
+                    });
+                }
+            }
+        }
+
+        return {
+            CallExpression(node: ESTree.CallExpression &
+                                 Rule.NodeParentExtension) {
+                const callName = getCallName(node);
+
+                if (groupNames.has(callName) ||
+                    specNames.has(callName) ||
+                    setupNames.has(callName) ||
+                    teardownNames.has(callName)) {
+                    const fn = node.arguments.find(
+                        arg => (arg.type === 'ArrowFunctionExpression' ||
+                                arg.type === 'FunctionExpression'),
+                    ) as BlockFunction;
+
+                    if (fn !== undefined) {
+                        const parent = getOwner(node);
+                        let kind: BlockKind = 'teardown';
+
+                        if (groupNames.has(callName)) {
+                            kind = 'group';
+                        } else if (specNames.has(callName)) {
+                            kind = 'spec';
+                        } else if (setupNames.has(callName)) {
+                            kind = 'setup';
+                        }
+
+                        blocks.set(fn, {
+                            kind,
+                            parent,
+                        });
+                    }
+
+                    return;
+                }
+
+                if (callName === 'expect') {
+                    expectCalls.push(node);
+
+                    const target = node.arguments[0];
+                    const matcher = getMatcherName(node);
+
+                    if (target !== undefined && spyMatchers.has(matcher)) {
+                        matcherUses.push({
+                            matcher,
+                            owner: getOwner(node),
+                            target,
+                        });
+                    }
+
+                    return;
+                }
+
+                if (callName === 'spyOn' || callName === 'spyOnProperty') {
+                    /* `spyOn().and.*()` is reported as a whole. */
+                    if (getPropertyName(node.parent) !== 'and') {
+                        configCalls.push(node);
+                    }
+                } else if (node.callee.type === 'MemberExpression' &&
+                           getPropertyName(node.callee.object) === 'and') {
+                    configCalls.push(node);
+                }
+
+                addSpies(node, callName);
+            },
+
+            'Program:exit'() {
+                for (const use of matcherUses) {
+                    checkMatcherUse(use);
+                }
+
+                checkConfigOrder();
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
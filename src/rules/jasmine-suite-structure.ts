@@ -0,0 +1,365 @@
+/*
+ * Require each test file to contain one suite named after its path.
+ *
+ * Our test runner groups specs by the name of their jasmine-suites
+ * `suite()`. Each test file must contain exactly one top-level `suite()`,
+ * with all `describe()` blocks inside it, and the suite must be named after
+ * the path of the module being tested.
+ *
+ * For example, in `rb/js/views/tests/FooViewTests.ts`:
+ *
+ *     suite('rb/views/FooView', function() {
+ *         describe('Rendering', function() {
+ *             ...
+ *         });
+ *     });
+ *
+ * Not:
+ *
+ *     suite('rb/views/BarView', function() {
+ *         ...
+ *     });
+ *
+ *     describe('Rendering', function() {
+ *         ...
+ *     });
+ *
+ * The suite name is built by mapping a root directory in the path to a
+ * prefix (such as `rb/js/` to `rb/`), and removing any `tests/` directories
+ * and the test file suffix (such as `Tests.ts`) from the filename. The
+ * suffix is taken from whichever `files` pattern matches the filename.
+ */
+
+'use strict';
+
+import * as path from 'node:path';
+
+import { minimatch } from 'minimatch';
+import type { Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+
+/*
+ * The default patterns for test files.
+ */
+const defaultFiles = [
+    '**/*Tests.{js,jsx,ts,tsx}',
+    '**/*Tests.es6.{js,jsx}',
+];
+
+
+/*
+ * The default mapping of root directories to suite name prefixes.
+ */
+const defaultRoots = {
+    'djblets/js/': 'djblets/',
+    'rb/js/': 'rb/',
+};
+
+
+/*
+ * The names of functions defining Jasmine suites.
+ */
+const describeNames = new Set([
+    'describe',
+    'fdescribe',
+    'xdescribe',
+]);
+
+
+/**
+ * Return the name of the function being called.
+ *
+ * Args:
+ *     node (ESTree.CallExpression):
+ *         The call to check.
+ *
+ * Returns:
+ *     string:
+ *     The name of the called function, or ``null`` if it isn't a plain
+ *     function call.
+ */
+function getCalleeName(
+    node: ESTree.CallExpression,
+): string | null {
+    return (node.callee.type === 'Identifier'
+            ? node.callee.name
+            : null);
+}
+
+
+/**
+ * Return a test filename without its test file suffix.
+ *
+ * The suffix is taken from the last part of the first pattern that matches
+ * the filename. For example, a pattern ending in `*Tests.{js,ts}` strips
+ * `Tests.ts` from `FooTests.ts`, and one ending in `*.test.ts` strips
+ * `.test.ts` from `Foo.test.ts`.
+ *
+ * Args:
+ *     basename (string):
+ *         The name of the test file, without any directories.
+ *
+ *     files (Array of string):
+ *         The patterns for test files.
+ *
+ * Returns:
+ *     string:
+ *     The filename without the suffix.
+ */
+function stripTestSuffix(
+    basename: string,
+    files: string[],
+): string {
+    for (const pattern of files) {
+        const lastPart = pattern.split('/').at(-1);
+
+        if (!lastPart.startsWith('*') || lastPart.startsWith('**')) {
+            continue;
+        }
+
+        const suffixPattern = lastPart.slice(1);
+
+        /* Find the longest suffix matching the pattern. */
+        for (let i = 1; i < basename.length; i++) {
+            if (minimatch(basename.slice(i), suffixPattern, { dot: true })) {
+                return basename.slice(0, i);
+            }
+        }
+    }
+
+    return basename.replace(/Tests\..*$/u, '');
+}
+
+
+/**
+ * Return the expected suite name for a test file.
+ *
+ * Args:
+ *     filename (string):
+ *         The path to the test file, using ``/`` as a separator.
+ *
+ *     roots (object):
+ *         A mapping of root directories to suite name prefixes.
+ *
+ *     files (Array of string):
+ *         The patterns for test files.
+ *
+ * Returns:
+ *     string:
+ *     The expected suite name, or ``null`` if the file isn't within any of
+ *     the root directories.
+ */
+function getExpectedSuiteName(
+    filename: string,
+    roots: Record<string, string>,
+    files: string[],
+): string | null {
+    const normFilename = `/${filename}`;
+    let bestIndex = -1;
+    let remainder: string = null;
+    let prefix: string = null;
+
+    /* Use the last root found in the path, so nested roots take priority. */
+    for (const [root, rootPrefix] of Object.entries(roots)) {
+        const normRoot = `/${root.replace(/^\/+|\/+$/gu, '')}/`;
+        const i = normFilename.lastIndexOf(normRoot);
+
+        if (i > bestIndex) {
+            bestIndex = i;
+            remainder = normFilename.slice(i + normRoot.length);
+            prefix = rootPrefix;
+        }
+    }
+
+    if (remainder === null) {
+        return null;
+    }
+
+    const parts = remainder.split('/')
+        .filter(part => part !== 'tests');
+    const basename = stripTestSuffix(parts.pop(), files);
+
+    return prefix + [...parts, basename].join('/');
+}
+
+
+export default {
+    meta: {
+        type: 'suggestion',
+
+        defaultOptions: [
+            {
+                files: defaultFiles,
+                roots: defaultRoots,
+            },
+        ],
+
+        docs: {
+            description:
+                'Require each test file to contain one suite named after ' +
+                'its path',
+            recommended: false,
+        },
+
+        hasSuggestions: true,
+
+        messages: {
+            describeOutsideSuite:
+                "'{{name}}()' must be called inside the file's 'suite()'.",
+            missingSuite:
+                "Test files must contain a top-level 'suite()' call.",
+            multipleSuites:
+                "Test files must contain only one top-level 'suite()' call.",
+            nestedSuite:
+                "'suite()' must only be called at the top level of the file.",
+            renameSuite: "Rename the suite to '{{expected}}'.",
+            wrongSuiteName:
+                "The suite for this file should be named '{{expected}}', " +
+                "not '{{name}}'.",
+        },
+
+        schema: [
+            {
+                additionalProperties: false,
+                properties: {
+                    files: {
+                        items: {
+                            type: 'string',
+                        },
+                        type: 'array',
+                    },
+                    roots: {
+                        additionalProperties: {
+                            type: 'string',
+                        },
+                        type: 'object',
+                    },
+                },
+                type: 'object',
+            },
+        ],
+    },
+
+    create(context) {
+        const [{ files, roots }] = context.options;
+        const filename = path.relative(context.cwd, context.filename)
+            .split(path.sep)
+            .join('/');
+
+        if (!files.some(pattern => minimatch(filename, pattern, {
+            dot: true,
+        }))) {
+            return {};
+        }
+
+        const sourceCode = context.sourceCode;
+        const topLevelSuites: ESTree.CallExpression[] = [];
+
+        /**
+         * Check the name of a suite against the file's path.
+         *
+         * Args:
+         *     node (ESTree.CallExpression):
+         *         The call to ``suite()``.
+         */
+        function checkSuiteName(
+            node: ESTree.CallExpression,
+        ) {
+            const expected = getExpectedSuiteName(filename, roots, files);
+            const nameNode = node.arguments[0];
+
+            if (expected === null ||
+                nameNode?.type !== 'Literal' ||
+                typeof nameNode.value !== 'string' ||
+                nameNode.value === expected) {
+                return;
+            }
+
+            const quote = sourceCode.getText(nameNode)[0];
+
+            context.report({
+                data: {
+                    expected,
+                    name: nameNode.value,
+                },
+                messageId: 'wrongSuiteName',
+                node: nameNode,
+                suggest: [{
+                    data: { expected },
+                    fix: fixer => fixer.replaceText(
+                        nameNode, `${quote}${expected}${quote}`),
+                    messageId: 'renameSuite',
+                }],
+            });
+        }
+
+        /**
+         * Return whether a node is within one of the top-level suites.
+         *
+         * Args:
+         *     node (ESTree.Node):
+         *         The node to check.
+         *
+         * Returns:
+         *     boolean:
+         *     ``true`` if the node is inside a top-level ``suite()`` call.
+         */
+        function isInSuite(
+            node: ESTree.Node,
+        ): boolean {
+            return sourceCode.getAncestors(node).some(
+                ancestor => topLevelSuites.includes(
+                    ancestor as ESTree.CallExpression));
+        }
+
+        return {
+            CallExpression(node: ESTree.CallExpression &
+                                 Rule.NodeParentExtension) {
+                const name = getCalleeName(node);
+
+                if (name === 'suite') {
+                    const isTopLevel = (
+                        node.parent.type === 'ExpressionStatement' &&
+                        node.parent.parent.type === 'Program');
+
+                    if (!isTopLevel) {
+                        context.report({
+                            messageId: 'nestedSuite',
+                            node,
+                        });
+                    } else if (topLevelSuites.length > 0) {
+                        context.report({
+                            messageId: 'multipleSuites',
+                            node,
+                        });
+                    } else {
+                        checkSuiteName(node);
+                    }
+
+                    if (isTopLevel) {
+                        topLevelSuites.push(node);
+                    }
+                } else if (describeNames.has(name) && !isInSuite(node)) {
+                    context.report({
+                        data: { name },
+                        messageId: 'describeOutsideSuite',
+                        node,
+                    });
+                }
+            },
+
+            'Program:exit'() {
+                if (topLevelSuites.length === 0) {
+                    context.report({
+                        loc: {
+                            column: 0,
+                            line: 1,
+                        },
+                        messageId: 'missingSuite',
+                    });
+                }
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
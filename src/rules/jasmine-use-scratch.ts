@@ -0,0 +1,264 @@
+/*
+ * Require specs to render into `$testsScratch` instead of the document body.
+ *
+ * The test runner empties `$testsScratch` between specs. Elements added
+ * directly to `document.body` stay around for later specs, which can cause
+ * failures that depend on the order the specs run in.
+ *
+ * For example:
+ *
+ *     view.$el.appendTo($testsScratch);
+ *     $testsScratch.append(view.render().el);
+ *
+ * Not:
+ *
+ *     view.$el.appendTo(document.body);
+ *     $('body').append(view.render().el);
+ *     document.body.appendChild(view.el);
+ */
+
+'use strict';
+
+import type { Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+
+/*
+ * The name of the scratch area global.
+ */
+const scratchName = '$testsScratch';
+
+
+/*
+ * Methods that add content to the element they're called on.
+ *
+ * This covers both DOM and jQuery methods.
+ */
+const insertMethods = new Set([
+    'append',
+    'appendChild',
+    'html',
+    'insertAdjacentElement',
+    'insertAdjacentHTML',
+    'insertBefore',
+    'prepend',
+]);
+
+
+/*
+ * jQuery methods that add the element they're called on to a target.
+ */
+const insertToMethods = new Set([
+    'appendTo',
+    'prependTo',
+]);
+
+
+/*
+ * DOM properties that replace the content of an element when set.
+ */
+const contentProperties = new Set([
+    'innerHTML',
+    'textContent',
+]);
+
+
+/**
+ * Return the name of a non-computed property.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The node to check.
+ *
+ * Returns:
+ *     string:
+ *     The property name, or ``null`` if the node isn't a member expression
+ *     with a plain property name.
+ */
+function getPropertyName(
+    node: ESTree.Node,
+): string | null {
+    return (node.type === 'MemberExpression' &&
+            !node.computed &&
+            node.property.type === 'Identifier'
+            ? node.property.name
+            : null);
+}
+
+
+/**
+ * Return whether a node is `document.body`.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The node to check.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the node refers to ``document.body``.
+ */
+function isDocumentBody(
+    node: ESTree.Node,
+): boolean {
+    if (getPropertyName(node) !== 'body') {
+        return false;
+    }
+
+    const object = (node as ESTree.MemberExpression).object;
+
+    return object.type === 'Identifier' && object.name === 'document';
+}
+
+
+/**
+ * Return whether a node is a `'body'` selector.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The node to check.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the node is the string ``'body'``.
+ */
+function isBodySelector(
+    node: ESTree.Node,
+): boolean {
+    return node.type === 'Literal' && node.value === 'body';
+}
+
+
+/**
+ * Return whether a node is a jQuery wrapper for the document body.
+ *
+ * This matches `$('body')` and `$(document.body)`, along with their
+ * `jQuery()` equivalents.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The node to check.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the node wraps the document body.
+ */
+function isJQueryBody(
+    node: ESTree.Node,
+): boolean {
+    if (node.type !== 'CallExpression' ||
+        node.callee.type !== 'Identifier' ||
+        (node.callee.name !== '$' && node.callee.name !== 'jQuery') ||
+        node.arguments.length !== 1) {
+        return false;
+    }
+
+    const arg = node.arguments[0];
+
+    return isBodySelector(arg) || isDocumentBody(arg);
+}
+
+
+export default {
+    meta: {
+        type: 'problem',
+
+        docs: {
+            description:
+                'Require specs to render into $testsScratch instead of the ' +
+                'document body',
+            recommended: false,
+        },
+
+        hasSuggestions: true,
+
+        messages: {
+            useScratch:
+                "Specs must render into '$testsScratch' instead of the " +
+                'document body, so the content is removed between specs.',
+            useScratchInstead: "Use '{{replacement}}' instead.",
+        },
+
+        schema: [],
+    },
+
+    create(context) {
+        /**
+         * Report a reference to the document body.
+         *
+         * Args:
+         *     node (ESTree.Node):
+         *         The reference to replace.
+         *
+         *     replacement (string):
+         *         The code to suggest in its place.
+         */
+        function report(
+            node: ESTree.Node,
+            replacement: string,
+        ) {
+            context.report({
+                messageId: 'useScratch',
+                node,
+                suggest: [{
+                    data: { replacement },
+                    fix: fixer => fixer.replaceText(node, replacement),
+                    messageId: 'useScratchInstead',
+                }],
+            });
+        }
+
+        /**
+         * Report a reference to the document body that content is added to.
+         *
+         * Args:
+         *     node (ESTree.Node):
+         *         The node to check.
+         */
+        function checkTarget(
+            node: ESTree.Node,
+        ) {
+            if (isDocumentBody(node)) {
+                /* DOM methods need the element, not the jQuery object. */
+                report(node, `${scratchName}[0]`);
+            } else if (isJQueryBody(node)) {
+                report(node, scratchName);
+            }
+        }
+
+        return {
+            AssignmentExpression(node: ESTree.AssignmentExpression) {
+                const left = node.left;
+
+                if (left.type === 'MemberExpression' &&
+                    contentProperties.has(getPropertyName(left))) {
+                    checkTarget(left.object);
+                }
+            },
+
+            CallExpression(node: ESTree.CallExpression) {
+                const callee = node.callee;
+
+                if (callee.type !== 'MemberExpression') {
+                    return;
+                }
+
+                const methodName = getPropertyName(callee);
+                const target = node.arguments[0];
+
+                if (target === undefined) {
+                    /* Calls like `$('body').html()` only read content. */
+                    return;
+                }
+
+                if (insertMethods.has(methodName)) {
+                    checkTarget(callee.object);
+                } else if (insertToMethods.has(methodName) &&
+                           (isBodySelector(target) ||
+                            isDocumentBody(target) ||
+                            isJQueryBody(target))) {
+                    report(target, scratchName);
+                }
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
@@ -0,0 +1,217 @@
+/*
+ * Require names holding jQuery objects to be prefixed with `$`.
+ *
+ * Variables and properties assigned the result of `$(...)`, `this.$(...)`,
+ * or a chain of jQuery methods must be named with a `$` prefix (after any
+ * leading underscores). This includes properties in object literals, such as
+ * those passed to Backbone's `extend()`. Names with a `$` prefix must not be
+ * assigned values that are clearly not jQuery objects, such as strings or
+ * numbers.
+ *
+ * For example:
+ *
+ *     const $button = this.$('.save-button');
+ *     this._$items = $list.children('li');
+ *
+ * Not:
+ *
+ *     const button = this.$('.save-button');
+ *     this._$items = 3;
+ *
+ * The methods considered to return jQuery objects are configurable.
+ */
+
+'use strict';
+
+import type { Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+import {
+    defaultJQueryMethods,
+    getTargetName,
+    isJQueryExpression,
+    jQueryNameRE,
+} from '../utils/jquery';
+
+
+/*
+ * Node types for values that are clearly not jQuery objects.
+ */
+const nonJQueryTypes = new Set([
+    'ArrayExpression',
+    'ArrowFunctionExpression',
+    'BinaryExpression',
+    'ClassExpression',
+    'FunctionExpression',
+    'ObjectExpression',
+    'TemplateLiteral',
+    'UpdateExpression',
+]);
+
+
+/**
+ * Return whether a value is clearly not a jQuery object.
+ *
+ * ``null`` and ``undefined`` are allowed, since they're often used before a
+ * jQuery object is assigned.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The value to check.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the value can't be a jQuery object.
+ */
+function isNonJQueryValue(
+    node: ESTree.Node,
+): boolean {
+    if (node.type === 'Literal') {
+        return node.value !== null;
+    } else if (node.type === 'UnaryExpression') {
+        return node.operator !== 'void';
+    }
+
+    return nonJQueryTypes.has(node.type);
+}
+
+
+/**
+ * Return the expected name for a variable holding a jQuery object.
+ *
+ * Args:
+ *     name (string):
+ *         The current name.
+ *
+ * Returns:
+ *     string:
+ *     The name with a ``$`` inserted after any leading underscores.
+ */
+function getPrefixedName(
+    name: string,
+): string {
+    const underscores = /^_*/u.exec(name)[0];
+
+    return `${underscores}$${name.slice(underscores.length)}`;
+}
+
+
+export default {
+    meta: {
+        type: 'suggestion',
+
+        defaultOptions: [
+            {
+                methods: defaultJQueryMethods,
+            },
+        ],
+
+        docs: {
+            description:
+                'Require names holding jQuery objects to be prefixed with $',
+            recommended: false,
+        },
+
+        messages: {
+            missingPrefix:
+                "'{{name}}' holds a jQuery object, and should be named " +
+                "'{{expected}}'.",
+            unexpectedPrefix:
+                "'{{name}}' is prefixed with '$', but is assigned a value " +
+                "that isn't a jQuery object.",
+        },
+
+        schema: [
+            {
+                additionalProperties: false,
+                properties: {
+                    methods: {
+                        items: {
+                            type: 'string',
+                        },
+                        type: 'array',
+                        uniqueItems: true,
+                    },
+                },
+                type: 'object',
+            },
+        ],
+    },
+
+    create(context) {
+        const [{ methods }] = context.options;
+        const methodNames = new Set<string>(methods);
+
+        /**
+         * Check a value assigned to a name.
+         *
+         * Args:
+         *     target (ESTree.Node):
+         *         The variable, property, or class field key being assigned.
+         *
+         *     value (ESTree.Node):
+         *         The value being assigned.
+         */
+        function checkAssignment(
+            target: ESTree.Node,
+            value: ESTree.Node | null | undefined,
+        ) {
+            const name = getTargetName(target);
+
+            if (name === null || !value) {
+                return;
+            }
+
+            const hasPrefix = jQueryNameRE.test(name);
+
+            if (!hasPrefix && isJQueryExpression(value, methodNames)) {
+                context.report({
+                    data: {
+                        expected: getPrefixedName(name),
+                        name,
+                    },
+                    messageId: 'missingPrefix',
+                    node: target,
+                });
+            } else if (hasPrefix && isNonJQueryValue(value)) {
+                context.report({
+                    data: { name },
+                    messageId: 'unexpectedPrefix',
+                    node: target,
+                });
+            }
+        }
+
+        return {
+            AssignmentExpression(node: ESTree.AssignmentExpression) {
+                if (node.operator === '=') {
+                    checkAssignment(node.left, node.right);
+                }
+            },
+
+            Property(node: ESTree.Property & Rule.NodeParentExtension) {
+                /*
+                 * Object literals hold all kinds of values, so only
+                 * properties holding jQuery objects are checked.
+                 */
+                if (node.parent.type === 'ObjectExpression' &&
+                    node.kind === 'init' &&
+                    !node.computed &&
+                    !node.method &&
+                    isJQueryExpression(node.value, methodNames)) {
+                    checkAssignment(node.key, node.value);
+                }
+            },
+
+            PropertyDefinition(node: ESTree.PropertyDefinition) {
+                if (!node.computed) {
+                    checkAssignment(node.key, node.value);
+                }
+            },
+
+            VariableDeclarator(node: ESTree.VariableDeclarator) {
+                checkAssignment(node.id, node.init);
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
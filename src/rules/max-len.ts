@@ -0,0 +1,197 @@
+/*
+ * Enforce a maximum line length, except for translatable strings and URLs.
+ *
+ * Translatable strings can't be split up without making them harder to
+ * translate, so string literals passed to gettext functions and
+ * `interpolate()` don't count toward the length of a line. The rest of the
+ * line still does, including code in template literal substitutions.
+ *
+ * For example, this is allowed:
+ *
+ *     label: gettext('A long string that would be awkward to split up...'),
+ *
+ * But this is not:
+ *
+ *     someLongFunctionName(someLongArgument, anotherArgument, gettext('x'));
+ *
+ * Like `@stylistic/max-len`, lines containing URLs can be ignored.
+ */
+
+'use strict';
+
+import type { Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+import {
+    getGlobalCallName,
+    gettextFunctions,
+} from '../utils/i18n';
+
+
+/*
+ * A regex matching lines containing URLs.
+ *
+ * This is the same check used by `@stylistic/max-len`.
+ */
+const urlRE = /[^:/?#]:\/\/[^?#]/u;
+
+
+/*
+ * The default functions whose string arguments are exempt.
+ */
+const defaultFunctions = [
+    ...Object.keys(gettextFunctions),
+    'interpolate',
+].sort();
+
+
+export default {
+    meta: {
+        type: 'layout',
+
+        defaultOptions: [
+            {
+                code: 79,
+                functions: defaultFunctions,
+                ignoreUrls: true,
+            },
+        ],
+
+        docs: {
+            description:
+                'Enforce a maximum line length, except for translatable ' +
+                'strings and URLs',
+            recommended: false,
+        },
+
+        messages: {
+            max:
+                'This line has a length of {{length}}. Maximum allowed is ' +
+                '{{max}}.',
+        },
+
+        schema: [
+            {
+                additionalProperties: false,
+                properties: {
+                    code: {
+                        minimum: 0,
+                        type: 'integer',
+                    },
+                    functions: {
+                        items: {
+                            type: 'string',
+                        },
+                        type: 'array',
+                        uniqueItems: true,
+                    },
+                    ignoreUrls: {
+                        type: 'boolean',
+                    },
+                },
+                type: 'object',
+            },
+        ],
+    },
+
+    create(context) {
+        const [{ code, functions, ignoreUrls }] = context.options;
+        const sourceCode = context.sourceCode;
+
+        /* The [start, end) ranges of exempt strings, in source order. */
+        const exemptRanges: [number, number][] = [];
+
+        /**
+         * Return the number of exempt characters within a range.
+         *
+         * Args:
+         *     start (number):
+         *         The start of the range.
+         *
+         *     end (number):
+         *         The end of the range.
+         *
+         * Returns:
+         *     number:
+         *     The number of characters in the range covered by exempt
+         *     strings.
+         */
+        function getExemptLength(
+            start: number,
+            end: number,
+        ): number {
+            let length = 0;
+
+            for (const [rangeStart, rangeEnd] of exemptRanges) {
+                if (rangeStart >= end) {
+                    break;
+                }
+
+                length += Math.max(0, (Math.min(end, rangeEnd) -
+                                       Math.max(start, rangeStart)));
+            }
+
+            return length;
+        }
+
+        return {
+            CallExpression(node: ESTree.CallExpression) {
+                if (getGlobalCallName(context, node, functions) === null) {
+                    return;
+                }
+
+                for (const arg of node.arguments) {
+                    if (arg.type === 'Literal' &&
+                        typeof arg.value === 'string') {
+                        exemptRanges.push(arg.range);
+                    } else if (arg.type === 'TemplateLiteral') {
+                        /* Code in substitutions still counts. */
+                        for (const quasi of arg.quasis) {
+                            exemptRanges.push(quasi.range);
+                        }
+                    }
+                }
+            },
+
+            'Program:exit'() {
+                exemptRanges.sort((a, b) => a[0] - b[0]);
+
+                sourceCode.lines.forEach((line, i) => {
+                    if (line.length <= code ||
+                        (ignoreUrls && urlRE.test(line))) {
+                        return;
+                    }
+
+                    const lineNum = i + 1;
+                    const start = sourceCode.getIndexFromLoc({
+                        column: 0,
+                        line: lineNum,
+                    });
+                    const length = (
+                        line.length -
+                        getExemptLength(start, start + line.length));
+
+                    if (length > code) {
+                        context.report({
+                            data: {
+                                length: String(length),
+                                max: String(code),
+                            },
+                            loc: {
+                                end: {
+                                    column: line.length,
+                                    line: lineNum,
+                                },
+                                start: {
+                                    column: 0,
+                                    line: lineNum,
+                                },
+                            },
+                            messageId: 'max',
+                        });
+                    }
+                });
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
@@ -0,0 +1,149 @@
+/*
+ * Require a module header comment at the start of each file.
+ *
+ * Every source file should start with a starred block comment describing
+ * the module, before `'use strict';`, imports, or any other code. A license
+ * header may come before it.
+ *
+ * For example:
+ *
+ *     /*
+ *      * Views for managing review requests.
+ *      *\/
+ *
+ *     'use strict';
+ *
+ *     import { spina } from '@beanbag/spina';
+ *
+ * Not:
+ *
+ *     'use strict';
+ *
+ *     import { spina } from '@beanbag/spina';
+ *
+ * Unit tests, Storybook stories, and configuration files are exempt by
+ * default.
+ */
+
+'use strict';
+
+import * as path from 'node:path';
+
+import { minimatch } from 'minimatch';
+import type { Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+import { isStarredBlockComment } from '../utils/docstrings';
+import { isModulePreamble } from '../utils/nodes';
+
+
+/*
+ * The default patterns for files that don't require a header.
+ */
+const defaultExclude = [
+    '**/*Tests.{js,jsx,ts,tsx}',
+    '**/*Tests.es6.{js,jsx}',
+    '**/*.stories.{js,jsx,ts,tsx}',
+    '**/*.config.{js,cjs,mjs,ts}',
+];
+
+
+export default {
+    meta: {
+        type: 'suggestion',
+
+        defaultOptions: [
+            {
+                exclude: defaultExclude,
+                licensePattern: '@license|Copyright',
+            },
+        ],
+
+        docs: {
+            description:
+                'Require a module header comment at the start of each file',
+            recommended: false,
+        },
+
+        messages: {
+            missingHeader:
+                'Expected a starred block comment describing the module at ' +
+                'the start of the file.',
+        },
+
+        schema: [
+            {
+                additionalProperties: false,
+                properties: {
+                    exclude: {
+                        items: {
+                            type: 'string',
+                        },
+                        type: 'array',
+                    },
+                    licensePattern: {
+                        type: 'string',
+                    },
+                },
+                type: 'object',
+            },
+        ],
+    },
+
+    create(context) {
+        const [{ exclude, licensePattern }] = context.options;
+        const sourceCode = context.sourceCode;
+        const filename = path.relative(context.cwd, context.filename);
+
+        if (exclude.some(pattern => minimatch(filename, pattern, {
+            dot: true,
+        }))) {
+            return {};
+        }
+
+        return {
+            Program(node: ESTree.Program) {
+                const firstToken = sourceCode.getFirstToken(node);
+
+                if (!firstToken) {
+                    /* There's no code to describe. */
+                    return;
+                }
+
+                const licenseRE = new RegExp(licensePattern, 'u');
+                const comments = sourceCode.getCommentsBefore(firstToken)
+                    .filter(comment => (comment.type as string) !== 'Shebang');
+
+                if (comments.length > 0 &&
+                    licenseRE.test(comments[0].value)) {
+                    comments.shift();
+                }
+
+                const header = comments[0];
+
+                /*
+                 * A comment directly before code other than directives and
+                 * imports documents that code, rather than the module.
+                 */
+                const isDocumentingCode = (
+                    header !== undefined &&
+                    comments.length === 1 &&
+                    !isModulePreamble(node.body[0]) &&
+                    firstToken.loc.start.line === header.loc.end.line + 1);
+
+                if (header === undefined ||
+                    header.type !== 'Block' ||
+                    !isStarredBlockComment(header) ||
+                    isDocumentingCode) {
+                    context.report({
+                        loc: {
+                            column: 0,
+                            line: 1,
+                        },
+                        messageId: 'missingHeader',
+                    });
+                }
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
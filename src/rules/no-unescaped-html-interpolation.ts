@@ -0,0 +1,210 @@
+/*
+ * Require values interpolated into HTML template literals to be escaped.
+ *
+ * Template literals containing HTML tags are often used to build markup for
+ * Backbone views. Any value interpolated into them that isn't escaped can
+ * inject markup, which is a common source of XSS vulnerabilities.
+ *
+ * For example:
+ *
+ *     const html = dedent`
+ *         <div class="user">${_.escape(user.name)}</div>
+ *     `;
+ *
+ * Not:
+ *
+ *     const html = dedent`
+ *         <div class="user">${user.name}</div>
+ *     `;
+ *
+ * Values that are already safe HTML can be marked with a comment:
+ *
+ *     const html = `<div>${/* trusted *\/ this.renderedHTML}</div>`;
+ *
+ * Literal values, and conditionals choosing between literal values, don't
+ * need to be escaped. Nested HTML templates, including `dedent`-tagged ones,
+ * are checked on their own.
+ */
+
+'use strict';
+
+import type { Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+
+/*
+ * A regex matching an opening or closing HTML tag.
+ */
+const htmlTagRE = /<\/?[a-z][a-z0-9-]*(?=[\s/>])/iu;
+
+
+export default {
+    meta: {
+        type: 'problem',
+
+        defaultOptions: [
+            {
+                escapers: ['_.escape'],
+                trustedPattern: '^\\s*trusted\\b',
+            },
+        ],
+
+        docs: {
+            description:
+                'Require values interpolated into HTML template literals to ' +
+                'be escaped',
+            recommended: false,
+        },
+
+        hasSuggestions: true,
+
+        messages: {
+            unescaped:
+                'Values interpolated into HTML must be escaped with ' +
+                "'{{escaper}}()', or marked with a trusted comment.",
+            wrapInEscaper: "Wrap the value in '{{escaper}}()'.",
+        },
+
+        schema: [
+            {
+                additionalProperties: false,
+                properties: {
+                    escapers: {
+                        items: {
+                            type: 'string',
+                        },
+                        minItems: 1,
+                        type: 'array',
+                        uniqueItems: true,
+                    },
+                    trustedPattern: {
+                        type: 'string',
+                    },
+                },
+                type: 'object',
+            },
+        ],
+    },
+
+    create(context) {
+        const [{ escapers, trustedPattern }] = context.options;
+        const escaperNames = new Set<string>(escapers);
+        const trustedRE = new RegExp(trustedPattern, 'iu');
+        const sourceCode = context.sourceCode;
+
+        /**
+         * Return whether an interpolated value is safe to include in HTML.
+         *
+         * Args:
+         *     node (ESTree.Node):
+         *         The interpolated expression.
+         *
+         * Returns:
+         *     boolean:
+         *     ``true`` if the value is escaped or constant.
+         */
+        function isSafeValue(
+            node: ESTree.Node,
+        ): boolean {
+            switch (node.type) {
+                case 'Literal':
+                    return true;
+
+                case 'TemplateLiteral':
+                    /* Nested HTML template literals are checked separately. */
+                    return (node.expressions.length === 0 ||
+                            isHTMLTemplate(node));
+
+                case 'TaggedTemplateExpression':
+                    /*
+                     * Nested templates are tagged with `dedent`, which
+                     * doesn't change what's interpolated into them.
+                     */
+                    return (node.tag.type === 'Identifier' &&
+                            node.tag.name === 'dedent' &&
+                            isSafeValue(node.quasi));
+
+                case 'ConditionalExpression':
+                    return (isSafeValue(node.consequent) &&
+                            isSafeValue(node.alternate));
+
+                case 'CallExpression':
+                    return escaperNames.has(sourceCode.getText(node.callee));
+
+                default:
+                    return false;
+            }
+        }
+
+        /**
+         * Return whether a template literal contains HTML tags.
+         *
+         * Args:
+         *     node (ESTree.TemplateLiteral):
+         *         The template literal to check.
+         *
+         * Returns:
+         *     boolean:
+         *     ``true`` if the static parts of the template contain a tag.
+         */
+        function isHTMLTemplate(
+            node: ESTree.TemplateLiteral,
+        ): boolean {
+            /*
+             * Tags may be split across an interpolation, as in
+             * `<div class="${cls}">`, so the parts are checked together.
+             */
+            return htmlTagRE.test(
+                node.quasis.map(quasi => quasi.value.raw).join('x'));
+        }
+
+        /**
+         * Return whether an interpolation is marked as trusted.
+         *
+         * Args:
+         *     node (ESTree.Expression):
+         *         The interpolated expression.
+         *
+         * Returns:
+         *     boolean:
+         *     ``true`` if a comment within the interpolation's braces
+         *     matches the trusted pattern.
+         */
+        function isTrusted(
+            node: ESTree.Expression,
+        ): boolean {
+            return [
+                ...sourceCode.getCommentsBefore(node),
+                ...sourceCode.getCommentsAfter(node),
+            ].some(comment => trustedRE.test(comment.value));
+        }
+
+        return {
+            TemplateLiteral(node: ESTree.TemplateLiteral) {
+                if (node.expressions.length === 0 || !isHTMLTemplate(node)) {
+                    return;
+                }
+
+                const escaper = escapers[0];
+
+                for (const expression of node.expressions) {
+                    if (!isSafeValue(expression) && !isTrusted(expression)) {
+                        context.report({
+                            data: { escaper },
+                            messageId: 'unescaped',
+                            node: expression,
+                            suggest: [{
+                                data: { escaper },
+                                fix: fixer => fixer.replaceText(
+                                    expression,
+                                    `${escaper}(` +
+                                    `${sourceCode.getText(expression)})`),
+                                messageId: 'wrapInEscaper',
+                            }],
+                        });
+                    }
+                }
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
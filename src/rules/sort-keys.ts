@@ -0,0 +1,565 @@
+/*
+ * Require object keys to be sorted, with support for autofixing.
+ *
+ * This follows the semantics and options of ESLint's `sort-keys` rule, but
+ * can reorder properties within each group of keys. Comments attached to a
+ * property move along with it.
+ *
+ * Spreads and computed keys act as barriers. Properties are never moved
+ * across them, and sorting restarts after them.
+ *
+ * Properties are only reordered when doing so can't change behavior. If any
+ * value in a group may have side effects (such as a function call), the
+ * group is reported but not fixed.
+ */
+
+'use strict';
+
+import naturalCompare from 'natural-compare';
+import type { AST, Rule, SourceCode } from 'eslint';
+import type * as ESTree from 'estree';
+
+
+/*
+ * Functions that are known to be free of side effects.
+ *
+ * Values calling these can be safely reordered. These are the Django i18n
+ * functions, which commonly appear in Backbone `defaults`.
+ */
+const pureFunctionNames = new Set([
+    'gettext',
+    'gettext_noop',
+    'interpolate',
+    'ngettext',
+    'npgettext',
+    'pgettext',
+]);
+
+
+/*
+ * Types of values that never have side effects when evaluated.
+ */
+const safeNodeTypes = new Set([
+    'ArrowFunctionExpression',
+    'FunctionExpression',
+    'Identifier',
+    'Literal',
+    'ThisExpression',
+]);
+
+
+/*
+ * Information on a property that may be moved by the fixer.
+ */
+interface MovableProperty {
+    /* The source text of the property itself. */
+    bodyText: string;
+
+    /* The end of the property's text, including any comma and comment. */
+    end: number;
+
+    /* Whether the property's text is followed by a line break. */
+    endsLine: boolean;
+
+    /* Whether the property is followed by a comma. */
+    hasComma: boolean;
+
+    /* The comments and whitespace preceding the property. */
+    leadingText: string;
+
+    /* The name used to sort the property. */
+    name: string;
+
+    /* The property node. */
+    node: ESTree.Property;
+
+    /* The start of the property's text, including leading comments. */
+    start: number;
+
+    /* The trailing comment on the property's line, if any. */
+    trailingComment: ESTree.Comment | null;
+
+    /* The text between the comma (or property) and trailing comment. */
+    trailingText: string;
+}
+
+
+/**
+ * Return the static name of a non-computed property.
+ *
+ * Args:
+ *     node (ESTree.Property):
+ *         The property to return the name for.
+ *
+ * Returns:
+ *     string:
+ *     The property name.
+ */
+function getPropertyName(
+    node: ESTree.Property,
+): string | null {
+    const key = node.key;
+
+    if (key.type === 'Identifier') {
+        return key.name;
+    } else if (key.type === 'Literal') {
+        return String(key.value);
+    }
+
+    return null;
+}
+
+
+/**
+ * Return whether a value can be evaluated in a different order.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The value to check.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the value has no side effects when evaluated.
+ */
+function isSafeToReorder(
+    node: ESTree.Node,
+): boolean {
+    if (safeNodeTypes.has(node.type)) {
+        return true;
+    }
+
+    switch (node.type) {
+        case 'ArrayExpression':
+            return node.elements.every(
+                element => element === null || isSafeToReorder(element));
+
+        case 'CallExpression':
+            return (node.callee.type === 'Identifier' &&
+                    pureFunctionNames.has(node.callee.name) &&
+                    node.arguments.every(arg => isSafeToReorder(arg)));
+
+        case 'MemberExpression':
+            return (isSafeToReorder(node.object) &&
+                    (!node.computed || node.property.type === 'Literal'));
+
+        case 'ObjectExpression':
+            return node.properties.every(
+                prop => (prop.type === 'Property' &&
+                         !prop.computed &&
+                         isSafeToReorder(prop.value)));
+
+        case 'Property':
+            return !node.computed && isSafeToReorder(node.value);
+
+        case 'TemplateLiteral':
+            return node.expressions.every(expr => isSafeToReorder(expr));
+
+        case 'UnaryExpression':
+            return (node.operator !== 'delete' &&
+                    isSafeToReorder(node.argument));
+
+        default: {
+            /* Allow TypeScript type assertions around safe values. */
+            const tsNode = node as unknown as {
+                expression?: ESTree.Node,
+                type: string,
+            };
+
+            if ((tsNode.type === 'TSAsExpression' ||
+                 tsNode.type === 'TSNonNullExpression' ||
+                 tsNode.type === 'TSSatisfiesExpression') &&
+                tsNode.expression) {
+                return isSafeToReorder(tsNode.expression);
+            }
+
+            return false;
+        }
+    }
+}
+
+
+/**
+ * Return whether there's a blank line between two nodes.
+ *
+ * Comments between the nodes are taken into account, so a blank line
+ * between a comment and a node counts.
+ *
+ * Args:
+ *     sourceCode (SourceCode):
+ *         The source code being linted.
+ *
+ *     prevNode (ESTree.Node):
+ *         The earlier node.
+ *
+ *     node (ESTree.Node):
+ *         The later node.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if there's a blank line between the nodes.
+ */
+function hasBlankLineBetween(
+    sourceCode: SourceCode,
+    prevNode: ESTree.Node,
+    node: ESTree.Node,
+): boolean {
+    const tokens: (AST.Token | ESTree.Comment | ESTree.Node)[] = [
+        prevNode,
+        ...sourceCode.getTokensBetween(prevNode, node, {
+            includeComments: true,
+        }),
+        node,
+    ];
+
+    for (let i = 1; i < tokens.length; i++) {
+        if (tokens[i].loc.start.line - tokens[i - 1].loc.end.line > 1) {
+            return true;
+        }
+    }
+
+    return false;
+}
+
+
+/**
+ * Return information needed to move a property.
+ *
+ * Args:
+ *     sourceCode (SourceCode):
+ *         The source code being linted.
+ *
+ *     node (ESTree.Property):
+ *         The property to move.
+ *
+ *     name (string):
+ *         The name of the property.
+ *
+ * Returns:
+ *     MovableProperty:
+ *     The information on the property, or ``null`` if comments around the
+ *     property are placed in a way that can't be safely moved.
+ */
+function getMovableProperty(
+    sourceCode: SourceCode,
+    node: ESTree.Property,
+    name: string,
+): MovableProperty | null {
+    const text = sourceCode.text;
+    const tokenAfter = sourceCode.getTokenAfter(node);
+    const hasComma = (tokenAfter !== null && tokenAfter.value === ',');
+    const lastToken = hasComma ? tokenAfter : node;
+
+    if (hasComma &&
+        sourceCode.getCommentsBefore(tokenAfter).length > 0) {
+        /* There's a comment between the property and the comma. */
+        return null;
+    }
+
+    /*
+     * Leading comments start on their own line after the previous token.
+     * Any comment on the previous token's line belongs to whatever
+     * precedes this property.
+     */
+    const tokenBefore = sourceCode.getTokenBefore(node);
+    const leadingComments = sourceCode.getCommentsBefore(node).filter(
+        comment => comment.loc.start.line > tokenBefore.loc.end.line);
+
+    /* A trailing comment must be the last thing on the property's line. */
+    const lastLine = lastToken.loc.end.line;
+    const trailingComments = sourceCode.getCommentsAfter(lastToken).filter(
+        comment => comment.loc.start.line === lastLine);
+    let trailingComment: ESTree.Comment | null = null;
+
+    if (trailingComments.length > 1) {
+        return null;
+    } else if (trailingComments.length === 1) {
+        trailingComment = trailingComments[0];
+
+        const nextToken = sourceCode.getTokenAfter(trailingComment, {
+            includeComments: true,
+        });
+
+        if (nextToken && nextToken.loc.start.line === lastLine) {
+            return null;
+        }
+    }
+
+    const start = (leadingComments.length > 0
+                   ? leadingComments[0].range[0]
+                   : node.range[0]);
+    const end = (trailingComment
+                 ? trailingComment.range[1]
+                 : lastToken.range[1]);
+    const nextToken = sourceCode.getTokenAfter(
+        trailingComment || lastToken,
+        {
+            includeComments: true,
+        });
+
+    return {
+        bodyText: sourceCode.getText(node),
+        end,
+        endsLine: (nextToken === null ||
+                   nextToken.loc.start.line > (trailingComment || lastToken)
+                       .loc.end.line),
+        hasComma,
+        leadingText: text.slice(start, node.range[0]),
+        name,
+        node,
+        start,
+        trailingComment,
+        trailingText: (trailingComment
+                       ? text.slice(lastToken.range[1], end)
+                       : ''),
+    };
+}
+
+
+export default {
+    meta: {
+        type: 'suggestion',
+
+        defaultOptions: [
+            'asc',
+            {
+                allowLineSeparatedGroups: false,
+                caseSensitive: true,
+                minKeys: 2,
+                natural: false,
+            },
+        ],
+
+        docs: {
+            description: 'Require object keys to be sorted, with autofixing',
+            recommended: false,
+        },
+
+        fixable: 'code',
+
+        messages: {
+            sortKeys:
+                'Expected object keys to be in {{natural}}{{insensitive}}' +
+                "{{order}}ending order. '{{thisName}}' should be before " +
+                "'{{prevName}}'.",
+        },
+
+        schema: [
+            {
+                enum: ['asc', 'desc'],
+            },
+            {
+                additionalProperties: false,
+                properties: {
+                    allowLineSeparatedGroups: {
+                        type: 'boolean',
+                    },
+                    caseSensitive: {
+                        type: 'boolean',
+                    },
+                    minKeys: {
+                        minimum: 2,
+                        type: 'integer',
+                    },
+                    natural: {
+                        type: 'boolean',
+                    },
+                },
+                type: 'object',
+            },
+        ],
+    },
+
+    create(context) {
+        const [
+            order,
+            {
+                allowLineSeparatedGroups,
+                caseSensitive,
+                minKeys,
+                natural,
+            },
+        ] = context.options;
+        const sourceCode = context.sourceCode;
+
+        /**
+         * Compare two property names for sorting.
+         *
+         * Args:
+         *     a (string):
+         *         The first name.
+         *
+         *     b (string):
+         *         The second name.
+         *
+         * Returns:
+         *     number:
+         *     A negative number if ``a`` sorts first, a positive number if
+         *     ``b`` sorts first, or 0 if they're equal.
+         */
+        function compareNames(
+            a: string,
+            b: string,
+        ): number {
+            if (!caseSensitive) {
+                a = a.toLowerCase();
+                b = b.toLowerCase();
+            }
+
+            let result: number;
+
+            if (natural) {
+                result = naturalCompare(a, b);
+            } else {
+                result = (a < b ? -1 : (a > b ? 1 : 0));
+            }
+
+            return (order === 'desc' ? -result : result);
+        }
+
+        /**
+         * Return a fix for reordering a group of properties.
+         *
+         * Args:
+         *     group (Array of ESTree.Property):
+         *         The properties in the group, in source order.
+         *
+         *     names (Array of string):
+         *         The names of the properties.
+         *
+         * Returns:
+         *     function:
+         *     The fixer function, or ``null`` if the group can't be safely
+         *     reordered.
+         */
+        function buildGroupFix(
+            group: ESTree.Property[],
+            names: string[],
+        ): Rule.ReportFixer | null {
+            if (!group.every(node => isSafeToReorder(node))) {
+                return null;
+            }
+
+            const items: MovableProperty[] = [];
+
+            for (let i = 0; i < group.length; i++) {
+                const item = getMovableProperty(sourceCode, group[i],
+                                                names[i]);
+
+                if (item === null) {
+                    return null;
+                }
+
+                items.push(item);
+            }
+
+            const sortedItems = items
+                .map((item, index) => ({ index, item }))
+                .sort((a, b) => (compareNames(a.item.name, b.item.name) ||
+                                 a.index - b.index))
+                .map(({ item }) => item);
+            const text = sourceCode.text;
+            const parts: string[] = [];
+
+            for (let i = 0; i < items.length; i++) {
+                const slot = items[i];
+                const item = sortedItems[i];
+
+                if (item.trailingComment?.type === 'Line' && !slot.endsLine) {
+                    /* A line comment would swallow whatever follows. */
+                    return null;
+                }
+
+                parts.push(item.leadingText, item.bodyText);
+
+                if (slot.hasComma) {
+                    parts.push(',');
+                }
+
+                parts.push(item.trailingText);
+
+                if (i + 1 < items.length) {
+                    parts.push(text.slice(slot.end, items[i + 1].start));
+                }
+            }
+
+            return fixer => fixer.replaceTextRange(
+                [items[0].start, items.at(-1).end],
+                parts.join(''));
+        }
+
+        /**
+         * Check a group of properties, reporting any that are out of order.
+         *
+         * Args:
+         *     group (Array of ESTree.Property):
+         *         The properties in the group, in source order.
+         */
+        function checkGroup(
+            group: ESTree.Property[],
+        ) {
+            const names = group.map(node => getPropertyName(node));
+            let fix: Rule.ReportFixer | null | undefined = undefined;
+
+            for (let i = 1; i < group.length; i++) {
+                const prevName = names[i - 1];
+                const thisName = names[i];
+
+                if (compareNames(prevName, thisName) <= 0) {
+                    continue;
+                }
+
+                if (fix === undefined) {
+                    /* Only the first report in a group carries the fix. */
+                    fix = buildGroupFix(group, names);
+                }
+
+                context.report({
+                    data: {
+                        insensitive: caseSensitive ? '' : 'insensitive ',
+                        natural: natural ? 'natural ' : '',
+                        order,
+                        prevName,
+                        thisName,
+                    },
+                    fix,
+                    loc: group[i].key.loc,
+                    messageId: 'sortKeys',
+                });
+
+                fix = null;
+            }
+        }
+
+        return {
+            ObjectExpression(node: ESTree.ObjectExpression) {
+                if (node.properties.length < minKeys) {
+                    return;
+                }
+
+                let group: ESTree.Property[] = [];
+                let prevNode: ESTree.Node | null = null;
+
+                for (const prop of node.properties) {
+                    if (prop.type !== 'Property' || prop.computed) {
+                        /* Spreads and computed keys act as barriers. */
+                        checkGroup(group);
+                        group = [];
+                    } else {
+                        if (allowLineSeparatedGroups &&
+                            prevNode !== null &&
+                            hasBlankLineBetween(sourceCode, prevNode, prop)) {
+                            checkGroup(group);
+                            group = [];
+                        }
+
+                        group.push(prop);
+                    }
+
+                    prevNode = prop;
+                }
+
+                checkGroup(group);
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
@@ -0,0 +1,292 @@
+/*
+ * Require Spina classes to be decorated and use static attributes.
+ *
+ * Spina builds Backbone classes from ES6 classes, and needs the `@spina`
+ * decorator on every subclass to set up the prototype. Backbone's prototype
+ * attributes (such as `className`, `defaults`, `events`, and `tagName`) must
+ * be static fields, which Spina moves onto the prototype. Instance fields
+ * would be set too late, after Backbone has already used them. Methods (such
+ * as `events() {}`) are already on the prototype, and are allowed.
+ *
+ * For example:
+ *
+ *     @spina
+ *     export class MyView extends BaseView {
+ *         static className = 'my-view';
+ *         static events = {
+ *             'click': '_onClick',
+ *         };
+ *     }
+ *
+ * Not:
+ *
+ *     export class MyView extends BaseView {
+ *         className = 'my-view';
+ *         events = {
+ *             'click': '_onClick',
+ *         };
+ *     }
+ *
+ * Classes are checked if they inherit from one of the Spina base classes,
+ * directly or through other classes in the file, or from a class decorated
+ * with `@spina`.
+ */
+
+'use strict';
+
+import type { Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+import {
+    getClassChain,
+    getClassDefinition,
+} from '../utils/backbone';
+import type { ClassDefinition } from '../utils/backbone';
+import { getMemberName } from '../utils/nodes';
+
+
+/*
+ * The decorators that typescript-eslint adds to class nodes.
+ */
+interface Decorated {
+    /* The decorators applied to the class. */
+    decorators?: {
+        expression: ESTree.Expression;
+    }[];
+}
+
+
+/*
+ * A class node, with its decorators.
+ */
+type DecoratedClass =
+    (ESTree.ClassDeclaration | ESTree.ClassExpression) &
+    Rule.NodeParentExtension &
+    Decorated;
+
+
+/**
+ * Return whether a class is decorated with `@spina`.
+ *
+ * This accepts both `@spina` and `@spina({...})`.
+ *
+ * Args:
+ *     node (DecoratedClass):
+ *         The class to check.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the class has the decorator.
+ */
+function hasSpinaDecorator(
+    node: DecoratedClass,
+): boolean {
+    return (node.decorators ?? []).some(decorator => {
+        const expression = (decorator.expression.type === 'CallExpression'
+                            ? decorator.expression.callee
+                            : decorator.expression);
+
+        return (expression.type === 'Identifier' &&
+                expression.name === 'spina');
+    });
+}
+
+
+export default {
+    meta: {
+        type: 'problem',
+
+        defaultOptions: [
+            {
+                baseClasses: [
+                    'BaseCollection',
+                    'BaseModel',
+                    'BaseRouter',
+                    'BaseView',
+                ],
+                staticAttributes: [
+                    'className',
+                    'defaults',
+                    'events',
+                    'tagName',
+                ],
+            },
+        ],
+
+        docs: {
+            description:
+                'Require Spina classes to be decorated and use static ' +
+                'attributes',
+            recommended: false,
+        },
+
+        hasSuggestions: true,
+
+        messages: {
+            addDecorator: "Add the '@spina' decorator.",
+            missingDecorator:
+                "'{{name}}' inherits from a Spina class, and must be " +
+                "decorated with '@spina'.",
+            nonStaticAttribute:
+                "'{{name}}' must be static on Spina classes, so it's set on " +
+                'the prototype.',
+        },
+
+        schema: [
+            {
+                additionalProperties: false,
+                properties: {
+                    baseClasses: {
+                        items: {
+                            type: 'string',
+                        },
+                        type: 'array',
+                        uniqueItems: true,
+                    },
+                    staticAttributes: {
+                        items: {
+                            type: 'string',
+                        },
+                        type: 'array',
+                        uniqueItems: true,
+                    },
+                },
+                type: 'object',
+            },
+        ],
+    },
+
+    create(context) {
+        const [{ baseClasses, staticAttributes }] = context.options;
+        const baseClassNames = new Set<string>(baseClasses);
+        const staticAttributeNames = new Set<string>(staticAttributes);
+        const sourceCode = context.sourceCode;
+        const allDefinitions: ClassDefinition[] = [];
+
+        /**
+         * Record a class definition.
+         *
+         * Args:
+         *     node (DecoratedClass):
+         *         The class.
+         */
+        function addDefinition(
+            node: DecoratedClass,
+        ) {
+            const definition = getClassDefinition(sourceCode, node);
+
+            if (definition !== null) {
+                allDefinitions.push(definition);
+            }
+        }
+
+        /**
+         * Return whether a class is a Spina class.
+         *
+         * Args:
+         *     definition (ClassDefinition):
+         *         The class to check.
+         *
+         *     definitions (Map of string to ClassDefinition):
+         *         All named classes in the file, keyed by name.
+         *
+         * Returns:
+         *     boolean:
+         *     ``true`` if the class inherits from a Spina base class or a
+         *     decorated class.
+         */
+        function isSpinaClass(
+            definition: ClassDefinition,
+            definitions: Map<string, ClassDefinition>,
+        ): boolean {
+            const chain = getClassChain(definition, definitions);
+
+            return (baseClassNames.has(chain.at(-1).baseName) ||
+                    chain.some(cls => hasSpinaDecorator(
+                        cls.node as DecoratedClass)));
+        }
+
+        /**
+         * Check a Spina class.
+         *
+         * Args:
+         *     node (DecoratedClass):
+         *         The class to check.
+         *
+         *     name (string):
+         *         The name of the class, for error messages.
+         */
+        function checkClass(
+            node: DecoratedClass,
+            name: string,
+        ) {
+            if (!hasSpinaDecorator(node)) {
+                /* Decorators go before any `export` keyword. */
+                const target = (
+                    node.parent.type === 'ExportNamedDeclaration' ||
+                    node.parent.type === 'ExportDefaultDeclaration'
+                    ? node.parent
+                    : node);
+                const line = sourceCode.lines[target.loc.start.line - 1];
+                const indent = /^\s*/u.exec(line)[0];
+
+                context.report({
+                    data: { name },
+                    loc: (node.id ?? node).loc,
+                    messageId: 'missingDecorator',
+                    suggest: [{
+                        fix: fixer => fixer.insertTextBefore(
+                            target,
+                            (node.type === 'ClassDeclaration'
+                             ? `@spina\n${indent}`
+                             : '@spina ')),
+                        messageId: 'addDecorator',
+                    }],
+                });
+            }
+
+            for (const member of node.body.body) {
+                /*
+                 * Methods are already on the prototype, and Backbone reads
+                 * attributes like `events` through `_.result()`, so only
+                 * instance fields need to be static.
+                 */
+                if (member.type === 'PropertyDefinition' && !member.static) {
+                    const memberName = getMemberName(member);
+
+                    if (staticAttributeNames.has(memberName)) {
+                        context.report({
+                            data: {
+                                name: memberName,
+                            },
+                            messageId: 'nonStaticAttribute',
+                            node: member.key,
+                        });
+                    }
+                }
+            }
+        }
+
+        return {
+            ClassDeclaration: addDefinition,
+            ClassExpression: addDefinition,
+
+            'Program:exit'() {
+                const definitions = new Map<string, ClassDefinition>();
+
+                for (const definition of allDefinitions) {
+                    if (definition.name !== null) {
+                        definitions.set(definition.name, definition);
+                    }
+                }
+
+                for (const definition of allDefinitions) {
+                    if (isSpinaClass(definition, definitions)) {
+                        checkClass(definition.node as DecoratedClass,
+                                   definition.name ?? '(anonymous)');
+                    }
+                }
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
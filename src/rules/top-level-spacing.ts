@@ -0,0 +1,260 @@
+/*
+ * Require consistent blank lines between top-level declarations.
+ *
+ * Following PEP 8, top-level functions, classes, and variable blocks are
+ * separated by two blank lines. Consecutive variable declarations without
+ * blank lines between them are treated as a single block.
+ *
+ * Imports and the module header have their own settings. By default, the
+ * module header comment and any directives (such as `'use strict';`) are
+ * followed by one blank line, and the imports by two.
+ *
+ * For example:
+ *
+ *     /*
+ *      * A module.
+ *      *\/
+ *
+ *     'use strict';
+ *
+ *     import { Foo } from './foo';
+ *
+ *
+ *     const a = 1;
+ *     const b = 2;
+ *
+ *
+ *     function foo() {
+ *     }
+ *
+ * Not:
+ *
+ *     import { Foo } from './foo';
+ *
+ *     const a = 1;
+ *     function foo() {
+ *     }
+ */
+
+'use strict';
+
+import type { AST, Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+import { isStarredBlockComment } from '../utils/docstrings';
+import { isDirective, isModulePreamble } from '../utils/nodes';
+
+
+/*
+ * Node types considered top-level declarations.
+ *
+ * This includes the TypeScript declaration types.
+ */
+const declarationTypes = new Set([
+    'ClassDeclaration',
+    'ExportAllDeclaration',
+    'ExportDefaultDeclaration',
+    'ExportNamedDeclaration',
+    'FunctionDeclaration',
+    'TSDeclareFunction',
+    'TSEnumDeclaration',
+    'TSInterfaceDeclaration',
+    'TSModuleDeclaration',
+    'TSTypeAliasDeclaration',
+    'VariableDeclaration',
+]);
+
+
+/**
+ * Return whether a statement is a variable declaration.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The statement to check.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the statement declares (and possibly exports) variables.
+ */
+function isVariableDeclaration(
+    node: ESTree.Node,
+): boolean {
+    return (node.type === 'VariableDeclaration' ||
+            (node.type === 'ExportNamedDeclaration' &&
+             node.declaration?.type === 'VariableDeclaration'));
+}
+
+
+export default {
+    meta: {
+        type: 'layout',
+
+        defaultOptions: [
+            {
+                afterHeader: 1,
+                afterImports: 2,
+                blankLines: 2,
+            },
+        ],
+
+        docs: {
+            description:
+                'Require consistent blank lines between top-level ' +
+                'declarations',
+            recommended: false,
+        },
+
+        fixable: 'whitespace',
+
+        messages: {
+            afterHeader:
+                'Expected {{expected}} blank line(s) after the module ' +
+                'header, but found {{actual}}.',
+            afterImports:
+                'Expected {{expected}} blank line(s) after the imports, but ' +
+                'found {{actual}}.',
+            blankLines:
+                'Expected {{expected}} blank line(s) between top-level ' +
+                'declarations, but found {{actual}}.',
+        },
+
+        schema: [
+            {
+                additionalProperties: false,
+                properties: {
+                    afterHeader: {
+                        minimum: 0,
+                        type: 'integer',
+                    },
+                    afterImports: {
+                        minimum: 0,
+                        type: 'integer',
+                    },
+                    blankLines: {
+                        minimum: 0,
+                        type: 'integer',
+                    },
+                },
+                type: 'object',
+            },
+        ],
+    },
+
+    create(context) {
+        const [{ afterHeader, afterImports, blankLines }] = context.options;
+        const sourceCode = context.sourceCode;
+
+        /**
+         * Check the number of blank lines after a node or comment.
+         *
+         * Blank lines are counted up to the next token or comment.
+         *
+         * Args:
+         *     prev (ESTree.Node or ESTree.Comment):
+         *         The node or comment before the gap.
+         *
+         *     expected (number):
+         *         The expected number of blank lines.
+         *
+         *     messageId (string):
+         *         The ID of the message to report.
+         *
+         *     allowNone (boolean, optional):
+         *         Whether to also allow no blank lines.
+         */
+        function checkGap(
+            prev: ESTree.Node | ESTree.Comment,
+            expected: number,
+            messageId: string,
+            allowNone = false,
+        ) {
+            /* Trailing comments on the same line belong to the node. */
+            let last: ESTree.Node | AST.Token | ESTree.Comment = prev;
+            let next = sourceCode.getTokenAfter(prev, {
+                includeComments: true,
+            });
+
+            while (next &&
+                   (next.type === 'Line' || next.type === 'Block') &&
+                   next.loc.start.line === last.loc.end.line) {
+                last = next;
+                next = sourceCode.getTokenAfter(next, {
+                    includeComments: true,
+                });
+            }
+
+            if (!next || next.loc.start.line === last.loc.end.line) {
+                return;
+            }
+
+            const actual = next.loc.start.line - last.loc.end.line - 1;
+
+            if (actual !== expected && !(allowNone && actual === 0)) {
+                const lastEnd = last.range[1];
+                const nextStart = next.range[0];
+
+                context.report({
+                    data: {
+                        actual: String(actual),
+                        expected: String(expected),
+                    },
+                    fix: fixer => fixer.replaceTextRange(
+                        [lastEnd, nextStart],
+                        '\n'.repeat(expected + 1)),
+                    loc: {
+                        end: next.loc.start,
+                        start: last.loc.end,
+                    },
+                    messageId,
+                });
+            }
+        }
+
+        return {
+            Program(node: ESTree.Program) {
+                const body = node.body;
+
+                if (body.length === 0) {
+                    return;
+                }
+
+                /*
+                 * A module header is a starred block comment at the very
+                 * start of the file. If it directly precedes code, it's
+                 * documenting that code instead.
+                 */
+                const firstComment = sourceCode.getAllComments()[0];
+
+                if (firstComment &&
+                    firstComment.type === 'Block' &&
+                    isStarredBlockComment(firstComment) &&
+                    sourceCode.text.slice(0, firstComment.range[0])
+                        .trim() === '' &&
+                    (isModulePreamble(body[0]) ||
+                     body[0].loc.start.line > firstComment.loc.end.line + 1)) {
+                    checkGap(firstComment, afterHeader, 'afterHeader');
+                }
+
+                for (let i = 0; i < body.length - 1; i++) {
+                    const prev = body[i];
+                    const next = body[i + 1];
+
+                    if (isDirective(prev)) {
+                        if (!isDirective(next)) {
+                            checkGap(prev, afterHeader, 'afterHeader');
+                        }
+                    } else if (prev.type === 'ImportDeclaration') {
+                        if (next.type !== 'ImportDeclaration') {
+                            checkGap(prev, afterImports, 'afterImports');
+                        }
+                    } else if (declarationTypes.has(prev.type) ||
+                               declarationTypes.has(next.type)) {
+                        checkGap(prev, blankLines, 'blankLines',
+                                 (isVariableDeclaration(prev) &&
+                                  isVariableDeclaration(next)));
+                    }
+                }
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
@@ -0,0 +1,233 @@
+/*
+ * Require translator comments for ambiguous gettext strings.
+ *
+ * Strings containing placeholders, or short strings like "Close", don't give
+ * translators enough to go on. A comment starting with `Translators:` on the
+ * line before the gettext call (or earlier on the same line) is extracted by
+ * `makemessages` and shown to translators alongside the string.
+ *
+ * Short strings passed to `pgettext()` and `npgettext()` already have a
+ * context, and don't require a comment.
+ *
+ * For example:
+ *
+ *     /* Translators: The "Close" button on a dialog. *\/
+ *     const label = gettext('Close');
+ *
+ * Not:
+ *
+ *     const label = gettext('Close');
+ *
+ * Translator comments that aren't attached to a gettext call are reported,
+ * since they won't be extracted.
+ */
+
+'use strict';
+
+import type { Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+import {
+    getGettextCallName,
+    getStaticString,
+    gettextFunctions,
+    placeholderRE,
+} from '../utils/i18n';
+
+
+/*
+ * A regex matching the contents of a translator comment.
+ */
+const translatorCommentRE = /^[\s*]*Translators:/;
+
+
+/**
+ * Return whether a string contains interpolation placeholders.
+ *
+ * Args:
+ *     value (string):
+ *         The string to check.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the string contains at least one placeholder.
+ */
+function hasPlaceholders(
+    value: string,
+): boolean {
+    for (const m of value.matchAll(placeholderRE)) {
+        if (m[0] !== '%%') {
+            return true;
+        }
+    }
+
+    return false;
+}
+
+
+export default {
+    meta: {
+        type: 'suggestion',
+
+        defaultOptions: [
+            {
+                maxShortWords: 1,
+            },
+        ],
+
+        docs: {
+            description:
+                'Require translator comments for ambiguous gettext strings',
+            recommended: false,
+        },
+
+        messages: {
+            missingForPlaceholders:
+                'Strings with placeholders require a ' +
+                "'/* Translators: ... */' comment before the {{name}}() call.",
+            missingForShortString:
+                "Short strings require a '/* Translators: ... */' comment " +
+                'before the {{name}}() call.',
+            strayComment:
+                'This translator comment is not directly before a gettext ' +
+                'call, and will not be extracted.',
+        },
+
+        schema: [
+            {
+                additionalProperties: false,
+                properties: {
+                    maxShortWords: {
+                        minimum: 0,
+                        type: 'integer',
+                    },
+                },
+                type: 'object',
+            },
+        ],
+    },
+
+    create(context) {
+        const [{ maxShortWords }] = context.options;
+        const sourceCode = context.sourceCode;
+        const commentsByLine = new Map<number, ESTree.Comment[]>();
+        const usedComments = new Set<ESTree.Comment>();
+
+        for (const comment of sourceCode.getAllComments()) {
+            if (translatorCommentRE.test(comment.value)) {
+                const line = comment.loc.end.line;
+                const comments = commentsByLine.get(line);
+
+                if (comments) {
+                    comments.push(comment);
+                } else {
+                    commentsByLine.set(line, [comment]);
+                }
+            }
+        }
+
+        /**
+         * Return the translator comment attached to a call.
+         *
+         * Args:
+         *     node (ESTree.CallExpression):
+         *         The gettext call.
+         *
+         * Returns:
+         *     ESTree.Comment:
+         *     The translator comment, or ``null`` if there isn't one.
+         */
+        function getTranslatorComment(
+            node: ESTree.CallExpression,
+        ): ESTree.Comment | null {
+            const line = node.loc.start.line;
+            const candidates = [
+                ...(commentsByLine.get(line - 1) ?? []),
+                ...(commentsByLine.get(line) ?? []),
+            ].filter(comment => comment.range[1] <= node.range[0]);
+
+            return candidates.at(-1) ?? null;
+        }
+
+        /**
+         * Return the reason a call requires a translator comment.
+         *
+         * Args:
+         *     name (string):
+         *         The name of the gettext function.
+         *
+         *     node (ESTree.CallExpression):
+         *         The gettext call.
+         *
+         * Returns:
+         *     string:
+         *     The ID of the message to report, or ``null`` if the call doesn't
+         *     require a comment.
+         */
+        function getMissingMessageId(
+            name: string,
+            node: ESTree.CallExpression,
+        ): string | null {
+            const func = gettextFunctions[name];
+            const strings = func.stringArgs
+                .map(index => getStaticString(node.arguments[index]))
+                .filter(value => value !== null);
+
+            if (strings.some(value => hasPlaceholders(value))) {
+                return 'missingForPlaceholders';
+            }
+
+            if (func.contextArg === undefined &&
+                strings.some(value => {
+                    const numWords = value.trim().split(/\s+/).length;
+
+                    return value.trim() !== '' && numWords <= maxShortWords;
+                })) {
+                return 'missingForShortString';
+            }
+
+            return null;
+        }
+
+        return {
+            CallExpression(node: ESTree.CallExpression) {
+                const name = getGettextCallName(context, node);
+
+                if (name === null) {
+                    return;
+                }
+
+                const comment = getTranslatorComment(node);
+
+                if (comment) {
+                    usedComments.add(comment);
+
+                    return;
+                }
+
+                const messageId = getMissingMessageId(name, node);
+
+                if (messageId !== null) {
+                    context.report({
+                        data: { name },
+                        messageId,
+                        node,
+                    });
+                }
+            },
+
+            'Program:exit'() {
+                for (const comments of commentsByLine.values()) {
+                    for (const comment of comments) {
+                        if (!usedComments.has(comment)) {
+                            context.report({
+                                loc: comment.loc,
+                                messageId: 'strayComment',
+                            });
+                        }
+                    }
+                }
+            },
+        };
+    },
+} satisfies Rule.RuleModule;
@@ -0,0 +1,258 @@
+/*
+ * Utilities for inspecting Backbone classes.
+ *
+ * Backbone classes are defined either with `extend()`:
+ *
+ *     const MyView = Backbone.View.extend({
+ *         render() { ... },
+ *     });
+ *
+ * Or with ES6 classes:
+ *
+ *     class MyView extends Backbone.View {
+ *         render() { ... }
+ *     }
+ */
+
+'use strict';
+
+import type { Rule, SourceCode } from 'eslint';
+import type * as ESTree from 'estree';
+
+import { getMemberName } from './nodes';
+
+
+/*
+ * Methods provided by `Backbone.View`, including those from
+ * `Backbone.Events`.
+ */
+export const viewMethods = new Set([
+    '$',
+    'bind',
+    'delegate',
+    'delegateEvents',
+    'initialize',
+    'listenTo',
+    'listenToOnce',
+    'off',
+    'on',
+    'once',
+    'preinitialize',
+    'remove',
+    'render',
+    'setElement',
+    'stopListening',
+    'trigger',
+    'unbind',
+    'undelegate',
+    'undelegateEvents',
+]);
+
+
+/*
+ * A node defining a class, through `extend()` or a class.
+ */
+export type ClassDefinitionNode =
+    ESTree.CallExpression |
+    ESTree.ClassDeclaration |
+    ESTree.ClassExpression;
+
+
+/*
+ * A class defined in a file, which may be a Backbone class.
+ */
+export interface ClassDefinition {
+    /* The source text of the base class, such as `Backbone.View`. */
+    baseName: string;
+
+    /* The prototype members of the class, keyed by name. */
+    members: Map<string, ESTree.Node>;
+
+    /* The name the class is assigned to, or `null` if it's anonymous. */
+    name: string | null;
+
+    /* The node defining the class. */
+    node: ClassDefinitionNode;
+
+    /* The static members of the class, keyed by name. */
+    staticMembers: Map<string, ESTree.Node>;
+}
+
+
+/**
+ * Return the name a class definition is assigned to.
+ *
+ * Args:
+ *     sourceCode (eslint.SourceCode):
+ *         The source code containing the definition.
+ *
+ *     node (ClassDefinitionNode):
+ *         The class definition.
+ *
+ * Returns:
+ *     string:
+ *     The variable name or assignment target (such as ``RB.MyView``), or
+ *     ``null`` if the class isn't assigned to anything.
+ */
+function getAssignedName(
+    sourceCode: SourceCode,
+    node: ClassDefinitionNode & Rule.NodeParentExtension,
+): string | null {
+    const parent = node.parent;
+
+    if ((node.type === 'ClassDeclaration' ||
+         node.type === 'ClassExpression') &&
+        node.id) {
+        return node.id.name;
+    } else if (parent.type === 'VariableDeclarator' &&
+               parent.id.type === 'Identifier') {
+        return parent.id.name;
+    } else if (parent.type === 'AssignmentExpression') {
+        return sourceCode.getText(parent.left);
+    }
+
+    return null;
+}
+
+
+/**
+ * Return the class defined by a node.
+ *
+ * This recognizes calls to `extend()` with an object of prototype
+ * properties, and classes with a base class. Whether the class is a
+ * Backbone class depends on its base, which can be checked with
+ * `isSubclassOf()`.
+ *
+ * Args:
+ *     sourceCode (eslint.SourceCode):
+ *         The source code containing the definition.
+ *
+ *     node (ClassDefinitionNode):
+ *         The node to inspect.
+ *
+ * Returns:
+ *     ClassDefinition:
+ *     The class definition, or ``null`` if the node doesn't define a
+ *     subclass.
+ */
+export function getClassDefinition(
+    sourceCode: SourceCode,
+    node: ClassDefinitionNode & Rule.NodeParentExtension,
+): ClassDefinition | null {
+    const members = new Map<string, ESTree.Node>();
+    const staticMembers = new Map<string, ESTree.Node>();
+    let baseNode: ESTree.Node;
+
+    if (node.type === 'ClassDeclaration' ||
+        node.type === 'ClassExpression') {
+        if (!node.superClass) {
+            return null;
+        }
+
+        baseNode = node.superClass;
+
+        for (const member of node.body.body) {
+            if (member.type === 'MethodDefinition' ||
+                member.type === 'PropertyDefinition') {
+                const name = getMemberName(member);
+
+                if (name !== null) {
+                    (member.static ? staticMembers : members).set(
+                        name, member.value ?? member);
+                }
+            }
+        }
+    } else if (node.type === 'CallExpression') {
+        const callee = node.callee;
+        const protoProps = node.arguments[0];
+
+        if (callee.type !== 'MemberExpression' ||
+            callee.computed ||
+            callee.property.type !== 'Identifier' ||
+            callee.property.name !== 'extend' ||
+            protoProps?.type !== 'ObjectExpression') {
+            return null;
+        }
+
+        baseNode = callee.object;
+
+        for (const prop of protoProps.properties) {
+            const name = (prop.type === 'Property' ? getMemberName(prop)
+                                                   : null);
+
+            if (name !== null) {
+                members.set(name, (prop as ESTree.Property).value);
+            }
+        }
+    } else {
+        return null;
+    }
+
+    return {
+        baseName: sourceCode.getText(baseNode),
+        members,
+        name: getAssignedName(sourceCode, node),
+        node,
+        staticMembers,
+    };
+}
+
+
+/**
+ * Return the chain of classes a class inherits from within a file.
+ *
+ * Args:
+ *     definition (ClassDefinition):
+ *         The class to start from.
+ *
+ *     definitions (Map of string to ClassDefinition):
+ *         All named classes in the file, keyed by name.
+ *
+ * Returns:
+ *     Array of ClassDefinition:
+ *     The class and each of its base classes defined in the file, starting
+ *     with the class itself.
+ */
+export function getClassChain(
+    definition: ClassDefinition,
+    definitions: Map<string, ClassDefinition>,
+): ClassDefinition[] {
+    const chain: ClassDefinition[] = [];
+    let current: ClassDefinition | undefined = definition;
+
+    while (current !== undefined && !chain.includes(current)) {
+        chain.push(current);
+        current = definitions.get(current.baseName);
+    }
+
+    return chain;
+}
+
+
+/**
+ * Return whether a class inherits from one of a set of base classes.
+ *
+ * Args:
+ *     definition (ClassDefinition):
+ *         The class to check.
+ *
+ *     definitions (Map of string to ClassDefinition):
+ *         All named classes in the file, keyed by name.
+ *
+ *     baseNames (Set of string):
+ *         The names of the base classes to look for, such as
+ *         ``Backbone.View``.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the class inherits from one of the base classes, directly
+ *     or through classes defined in the file.
+ */
+export function isSubclassOf(
+    definition: ClassDefinition,
+    definitions: Map<string, ClassDefinition>,
+    baseNames: Set<string>,
+): boolean {
+    return baseNames.has(
+        getClassChain(definition, definitions).at(-1).baseName);
+}
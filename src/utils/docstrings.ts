@@ -0,0 +1,181 @@
+/*
+ * Utilities for working with Beanbag-style docstrings.
+ *
+ * Docstrings are starred block comments placed before a function, class, or
+ * method. They follow the same conventions as our Python docstrings:
+ *
+ *     /**
+ *      * Summary of the function.
+ *      *
+ *      * Args:
+ *      *     name (string):
+ *      *         Description of the argument.
+ *      *
+ *      * Returns:
+ *      *     boolean:
+ *      *     Description of the result.
+ */
+
+'use strict';
+
+import type * as ESTree from 'estree';
+
+
+/*
+ * A regex matching a section header in a docstring.
+ *
+ * This matches headers such as `Args:`, `Returns:`, and `Version Added:`.
+ */
+export const sectionHeaderRE = /^([A-Z][A-Za-z]*(?: [A-Z][A-Za-z]*)*):$/;
+
+
+/*
+ * A regex matching an argument entry in an `Args:` section.
+ *
+ * The argument name may be prefixed with `...` or `*` for rest arguments,
+ * and may be followed by a type in parentheses.
+ */
+const argEntryRE = /^(?:\.\.\.|\*{1,2})?([A-Za-z_$][\w$]*)\s*(?:\(.*\))?:$/;
+
+
+/*
+ * The number of spaces that entries in a section are indented by.
+ */
+const sectionIndent = 4;
+
+
+/*
+ * A line of content within a docstring.
+ */
+export interface DocstringLine {
+    /* The number of spaces the content is indented by. */
+    indent: number;
+
+    /* The content of the line, without the leading `*` or indentation. */
+    text: string;
+}
+
+
+/*
+ * A parsed docstring.
+ */
+export interface Docstring {
+    /* The names of all arguments listed in the `Args:` section. */
+    argNames: string[];
+
+    /* The content lines of the docstring. */
+    lines: DocstringLine[];
+
+    /* The content lines of each section, keyed by section header. */
+    sections: Map<string, DocstringLine[]>;
+}
+
+
+/**
+ * Return whether a comment is a starred block comment.
+ *
+ * A starred block comment spans multiple lines, with every line between
+ * the opening and closing lines starting with `*`.
+ *
+ * Args:
+ *     comment (ESTree.Comment):
+ *         The comment to check.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the comment is a starred block comment.
+ */
+export function isStarredBlockComment(
+    comment: ESTree.Comment,
+): boolean {
+    if (comment.type !== 'Block') {
+        return false;
+    }
+
+    /* The final line holds the indentation before the closing `*\/`. */
+    const lines = comment.value.split('\n').slice(1, -1);
+
+    return (lines.length > 0 &&
+            lines.every(line => /^\s*\*/.test(line)));
+}
+
+
+/**
+ * Return the content lines of a starred block comment.
+ *
+ * The leading `*` and the single space following it are removed from each
+ * line. The opening and closing lines are left out.
+ *
+ * Args:
+ *     comment (ESTree.Comment):
+ *         The starred block comment.
+ *
+ * Returns:
+ *     Array of DocstringLine:
+ *     The content lines.
+ */
+export function getCommentLines(
+    comment: ESTree.Comment,
+): DocstringLine[] {
+    return comment.value.split('\n').slice(1, -1).map(line => {
+        const text = line.replace(/^\s*\* ?/, '').trimEnd();
+        const content = text.trimStart();
+
+        return {
+            indent: text.length - content.length,
+            text: content,
+        };
+    });
+}
+
+
+/**
+ * Parse a starred block comment as a docstring.
+ *
+ * Args:
+ *     comment (ESTree.Comment):
+ *         The starred block comment to parse.
+ *
+ * Returns:
+ *     Docstring:
+ *     The parsed docstring.
+ */
+export function parseDocstring(
+    comment: ESTree.Comment,
+): Docstring {
+    const lines = getCommentLines(comment);
+    const sections = new Map<string, DocstringLine[]>();
+    let sectionLines: DocstringLine[] | null = null;
+
+    for (const line of lines) {
+        const m = (line.indent === 0 ? sectionHeaderRE.exec(line.text)
+                                     : null);
+
+        if (m) {
+            sectionLines = [];
+            sections.set(m[1], sectionLines);
+        } else if (line.indent === 0 && line.text) {
+            sectionLines = null;
+        } else if (sectionLines !== null) {
+            sectionLines.push(line);
+        }
+    }
+
+    const argNames: string[] = [];
+
+    for (const line of sections.get('Args') || []) {
+        if (line.indent === sectionIndent) {
+            const m = argEntryRE.exec(line.text);
+
+            if (m) {
+                argNames.push(m[1]);
+            }
+        }
+    }
+
+    return {
+        argNames,
+        lines,
+        sections,
+    };
+}
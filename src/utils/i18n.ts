@@ -0,0 +1,219 @@
+/*
+ * Utilities for working with Django's JavaScript i18n functions.
+ *
+ * Django provides `gettext()`, `ngettext()`, `pgettext()`, `npgettext()`,
+ * `gettext_noop()`, and `interpolate()` as globals (see the `django`
+ * environment). Strings passed to these are extracted by `makemessages`, so
+ * they need to follow certain rules that can't be checked at runtime.
+ */
+
+'use strict';
+
+import type { Rule } from 'eslint';
+import type * as ESTree from 'estree';
+
+
+/*
+ * Information on the arguments accepted by a gettext function.
+ */
+export interface GettextFunction {
+    /* The index of the context argument, if any. */
+    contextArg?: number;
+
+    /* The index of the count argument, if any. */
+    countArg?: number;
+
+    /* The number of arguments the function requires. */
+    numArgs: number;
+
+    /* The indexes of the arguments containing translatable strings. */
+    stringArgs: number[];
+}
+
+
+/*
+ * A regex matching placeholders in a format string.
+ *
+ * This matches the placeholders that `interpolate()` replaces (`%s` and
+ * `%(name)s`, with the name captured), along with `%%`, which must be
+ * skipped over.
+ */
+export const placeholderRE = /%%|%\(\s*([^)]+?)\s*\)s|%s/g;
+
+
+/*
+ * The gettext functions, keyed by name.
+ */
+export const gettextFunctions: {
+    [name: string]: GettextFunction,
+} = {
+    gettext: {
+        numArgs: 1,
+        stringArgs: [0],
+    },
+
+    gettext_noop: {
+        numArgs: 1,
+        stringArgs: [0],
+    },
+
+    ngettext: {
+        countArg: 2,
+        numArgs: 3,
+        stringArgs: [0, 1],
+    },
+
+    npgettext: {
+        contextArg: 0,
+        countArg: 3,
+        numArgs: 4,
+        stringArgs: [1, 2],
+    },
+
+    pgettext: {
+        contextArg: 0,
+        numArgs: 2,
+        stringArgs: [1],
+    },
+};
+
+
+/**
+ * Return whether a call is to a global function with one of the given names.
+ *
+ * Calls to local functions that shadow a global are ignored.
+ *
+ * Args:
+ *     context (Rule.RuleContext):
+ *         The context for the rule.
+ *
+ *     node (ESTree.CallExpression):
+ *         The call to check.
+ *
+ *     names (Array of string):
+ *         The names of the global functions.
+ *
+ * Returns:
+ *     string:
+ *     The name of the function being called, or ``null`` if it's not one of
+ *     the functions.
+ */
+export function getGlobalCallName(
+    context: Rule.RuleContext,
+    node: ESTree.CallExpression,
+    names: string[],
+): string | null {
+    const callee = node.callee;
+
+    if (callee.type !== 'Identifier' || !names.includes(callee.name)) {
+        return null;
+    }
+
+    let scope = context.sourceCode.getScope(node);
+
+    while (scope) {
+        const variable = scope.set.get(callee.name);
+
+        if (variable) {
+            /* Globals declared through configuration have no definitions. */
+            return (scope.type === 'global' && variable.defs.length === 0
+                    ? callee.name
+                    : null);
+        }
+
+        scope = scope.upper;
+    }
+
+    return callee.name;
+}
+
+
+/**
+ * Return the gettext function a call is for.
+ *
+ * Args:
+ *     context (Rule.RuleContext):
+ *         The context for the rule.
+ *
+ *     node (ESTree.CallExpression):
+ *         The call to check.
+ *
+ * Returns:
+ *     string:
+ *     The name of the gettext function, or ``null`` if this isn't a call to
+ *     one.
+ */
+export function getGettextCallName(
+    context: Rule.RuleContext,
+    node: ESTree.CallExpression,
+): string | null {
+    return getGlobalCallName(context, node, Object.keys(gettextFunctions));
+}
+
+
+/**
+ * Return the value of a static string.
+ *
+ * Static strings are string literals or template literals without any
+ * substitutions.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The node to check.
+ *
+ * Returns:
+ *     string:
+ *     The string value, or ``null`` if this isn't a static string.
+ */
+export function getStaticString(
+    node: ESTree.Node | undefined,
+): string | null {
+    if (!node) {
+        return null;
+    } else if (node.type === 'Literal' && typeof node.value === 'string') {
+        return node.value;
+    } else if (node.type === 'TemplateLiteral' &&
+               node.expressions.length === 0) {
+        return node.quasis[0].value.cooked ?? null;
+    }
+
+    return null;
+}
+
+
+/**
+ * Return the translatable strings passed to a gettext call.
+ *
+ * Args:
+ *     context (Rule.RuleContext):
+ *         The context for the rule.
+ *
+ *     node (ESTree.Node):
+ *         The node to check.
+ *
+ * Returns:
+ *     Array of string:
+ *     The static strings passed to the call, or ``null`` if this isn't a
+ *     gettext call with static strings.
+ */
+export function getGettextStrings(
+    context: Rule.RuleContext,
+    node: ESTree.Node,
+): string[] | null {
+    if (node.type !== 'CallExpression') {
+        return null;
+    }
+
+    const name = getGettextCallName(context, node);
+
+    if (name === null) {
+        return null;
+    }
+
+    const strings = gettextFunctions[name].stringArgs.map(
+        index => getStaticString(node.arguments[index]));
+
+    return (strings.every(value => value !== null)
+            ? strings
+            : null);
+}
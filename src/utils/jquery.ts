@@ -0,0 +1,155 @@
+/*
+ * Utilities for recognizing jQuery objects.
+ */
+
+'use strict';
+
+import type * as ESTree from 'estree';
+
+
+/*
+ * A regex matching names of variables and properties holding jQuery objects.
+ *
+ * These are prefixed with `$`, after any leading underscores (such as
+ * `this._$button`).
+ */
+export const jQueryNameRE = /^_*\$/u;
+
+
+/*
+ * Methods on jQuery objects that return jQuery objects.
+ *
+ * Methods that return other values depending on their arguments (such as
+ * `attr()` or `css()`) are left out.
+ */
+export const defaultJQueryMethods = [
+    'add',
+    'addBack',
+    'addClass',
+    'after',
+    'append',
+    'appendTo',
+    'before',
+    'children',
+    'clone',
+    'closest',
+    'contents',
+    'detach',
+    'empty',
+    'end',
+    'eq',
+    'filter',
+    'find',
+    'first',
+    'has',
+    'hide',
+    'insertAfter',
+    'insertBefore',
+    'last',
+    'next',
+    'nextAll',
+    'nextUntil',
+    'not',
+    'offsetParent',
+    'parent',
+    'parents',
+    'parentsUntil',
+    'prepend',
+    'prependTo',
+    'prev',
+    'prevAll',
+    'prevUntil',
+    'removeAttr',
+    'removeClass',
+    'replaceAll',
+    'replaceWith',
+    'show',
+    'siblings',
+    'slice',
+    'toggleClass',
+    'unwrap',
+    'wrap',
+    'wrapAll',
+    'wrapInner',
+];
+
+
+/**
+ * Return the name of a variable or property.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The identifier or member expression.
+ *
+ * Returns:
+ *     string:
+ *     The variable or property name, or ``null`` if it's computed or isn't
+ *     a name.
+ */
+export function getTargetName(
+    node: ESTree.Node,
+): string | null {
+    if (node.type === 'Identifier') {
+        return node.name;
+    } else if (node.type === 'MemberExpression' &&
+               !node.computed &&
+               node.property.type === 'Identifier') {
+        return node.property.name;
+    }
+
+    return null;
+}
+
+
+/**
+ * Return whether an expression evaluates to a jQuery object.
+ *
+ * This recognizes calls to `$()`, `jQuery()`, and a view's `this.$()`, and
+ * calls to jQuery-returning methods on `$`-prefixed names or on other
+ * jQuery expressions.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The expression to check.
+ *
+ *     methods (Set of string):
+ *         The names of methods on jQuery objects that return jQuery objects.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the expression evaluates to a jQuery object.
+ */
+export function isJQueryExpression(
+    node: ESTree.Node,
+    methods: Set<string>,
+): boolean {
+    if (node.type !== 'CallExpression') {
+        return false;
+    }
+
+    const callee = node.callee;
+
+    if (callee.type === 'Identifier') {
+        return callee.name === '$' || callee.name === 'jQuery';
+    } else if (callee.type !== 'MemberExpression' ||
+               callee.computed ||
+               callee.property.type !== 'Identifier') {
+        return false;
+    }
+
+    const methodName = callee.property.name;
+
+    if (methodName === '$') {
+        return true;
+    } else if (!methods.has(methodName)) {
+        return false;
+    }
+
+    const objectName = getTargetName(callee.object);
+
+    /* Static functions like `$.find()` don't return jQuery objects. */
+    return ((objectName !== null &&
+             objectName !== '$' &&
+             jQueryNameRE.test(objectName)) ||
+            isJQueryExpression(callee.object, methods));
+}
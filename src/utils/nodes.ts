@@ -0,0 +1,84 @@
+/*
+ * Utilities for inspecting AST nodes.
+ */
+
+'use strict';
+
+import type * as ESTree from 'estree';
+
+
+/**
+ * Return whether a statement is a directive, such as ``'use strict';``.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The statement to check.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the statement is a directive.
+ */
+export function isDirective(
+    node: ESTree.Node,
+): boolean {
+    /* typescript-eslint sets `directive` to undefined on other statements. */
+    return (node.type === 'ExpressionStatement' &&
+            typeof (node as ESTree.Directive).directive === 'string');
+}
+
+
+/**
+ * Return whether a statement belongs directly after the module header.
+ *
+ * Args:
+ *     node (ESTree.Node):
+ *         The statement to check.
+ *
+ * Returns:
+ *     boolean:
+ *     ``true`` if the statement is a directive or an import.
+ */
+export function isModulePreamble(
+    node: ESTree.Node,
+): boolean {
+    return isDirective(node) || node.type === 'ImportDeclaration';
+}
+
+
+/*
+ * A node for a named member of an object or class.
+ */
+export type MemberNode =
+    ESTree.MethodDefinition |
+    ESTree.Property |
+    ESTree.PropertyDefinition;
+
+
+/**
+ * Return the static name of a property, method, or class field.
+ *
+ * Args:
+ *     node (MemberNode):
+ *         The member to return the name for.
+ *
+ * Returns:
+ *     string:
+ *     The name, or ``null`` if the key is computed or private.
+ */
+export function getMemberName(
+    node: MemberNode,
+): string | null {
+    const key = node.key;
+
+    if (node.computed) {
+        return (key.type === 'Literal' && typeof key.value === 'string'
+                ? key.value
+                : null);
+    } else if (key.type === 'Identifier') {
+        return key.name;
+    } else if (key.type === 'Literal') {
+        return String(key.value);
+    }
+
+    return null;
+}
@@ -0,0 +1,306 @@
+/*
+ * Unit tests for the plugin's exports.
+ */
+
+import * as assert from 'node:assert';
+
+import { Linter } from 'eslint';
+
+import packageJSON from '../package.json';
+import * as beanbag from '../src';
+
+
+/**
+ * Return all `@beanbag/` rule names referenced by a set of rules.
+ *
+ * Args:
+ *     rules (object):
+ *         The rules to check.
+ *
+ * Returns:
+ *     Array of string:
+ *     The rule names, without the `@beanbag/` prefix.
+ */
+function getBeanbagRuleNames(
+    rules: Partial<Linter.RulesRecord> = {},
+): string[] {
+    return Object.keys(rules)
+        .filter(name => name.startsWith('@beanbag/'))
+        .map(name => name.substring('@beanbag/'.length));
+}
+
+
+/**
+ * Return the flat configuration blocks with the given name.
+ *
+ * Args:
+ *     config (Array of Linter.Config):
+ *         The flat configuration to search.
+ *
+ *     name (string):
+ *         The name of the configuration blocks to return.
+ *
+ * Returns:
+ *     Array of Linter.Config:
+ *     The matching configuration blocks.
+ */
+function getNamedConfigs(
+    config: Linter.Config[],
+    name: string,
+): Linter.Config[] {
+    return config.filter(subConfig => subConfig.name === name);
+}
+
+
+describe('Plugin', () => {
+    describe('meta', () => {
+        it('Matches package.json', () => {
+            assert.strictEqual(beanbag.meta.name, packageJSON.name);
+            assert.strictEqual(beanbag.meta.version, packageJSON.version);
+        });
+    });
+
+    describe('rules', () => {
+        for (const [name, rule] of Object.entries(beanbag.rules)) {
+            it(`${name} has metadata`, () => {
+                assert.ok(rule.meta, 'meta is missing');
+                assert.ok(rule.meta.type, 'meta.type is missing');
+                assert.ok(rule.meta.docs?.description,
+                          'meta.docs.description is missing');
+                assert.ok(rule.meta.schema !== undefined,
+                          'meta.schema is missing');
+            });
+        }
+    });
+
+    describe('environments', () => {
+        it('Exports globals for Djblets and Review Board', () => {
+            assert.deepStrictEqual(beanbag.globals.djblets, {
+                Djblets: false,
+            });
+            assert.deepStrictEqual(beanbag.globals.reviewboard, {
+                RB: false,
+            });
+            assert.deepStrictEqual(beanbag.environments.djblets.globals,
+                                   beanbag.globals.djblets);
+            assert.deepStrictEqual(beanbag.environments.reviewboard.globals,
+                                   beanbag.globals.reviewboard);
+        });
+
+        it('Provides flat configurations with the globals', () => {
+            assert.deepStrictEqual(
+                beanbag.configs['flat/djblets'][0].languageOptions.globals,
+                beanbag.globals.djblets);
+            assert.deepStrictEqual(
+                beanbag.configs['flat/reviewboard'][0].languageOptions.globals,
+                beanbag.globals.reviewboard);
+        });
+
+        it('Defines the globals when enabled', () => {
+            const linter = new Linter({
+                configType: 'flat',
+            });
+            const code = 'Djblets.setUp();\nRB.setUp();\n';
+
+            for (const [environments, expected] of [
+                [[], 2],
+                [['djblets', 'reviewboard'], 0],
+            ] as const) {
+                const config = beanbag.createConfig({
+                    environments: [...environments],
+                });
+                const messages = linter.verify(code, config, 'test.js');
+
+                assert.strictEqual(
+                    messages.filter(message => message.ruleId === 'no-undef')
+                        .length,
+                    expected);
+            }
+        });
+    });
+
+    describe('configs', () => {
+        for (const [name, config] of Object.entries(beanbag.configs)) {
+            it(`${name} only references registered rules`, () => {
+                const configList = Array.isArray(config)
+                                   ? config
+                                   : [config, ...(config.overrides || [])];
+
+                for (const subConfig of configList) {
+                    const ruleNames = getBeanbagRuleNames(subConfig.rules);
+
+                    for (const ruleName of ruleNames) {
+                        assert.ok(beanbag.rules[ruleName],
+                                  `@beanbag/${ruleName} is not registered`);
+                    }
+                }
+            });
+        }
+
+        it('flat/recommended lints successfully', () => {
+            const linter = new Linter({
+                configType: 'flat',
+            });
+            const config = beanbag.configs['flat/recommended'];
+
+            for (const filename of ['test.js', 'test.es6.js', 'test.ts',
+                                    'testTests.ts', 'test.stories.tsx']) {
+                const messages = linter.verify('var a = 1;\n', config,
+                                               filename);
+
+                assert.deepStrictEqual(
+                    messages.filter(message => message.fatal),
+                    []);
+            }
+        });
+    });
+
+    describe('createConfig', () => {
+        it('Defaults to flat/recommended', () => {
+            assert.deepStrictEqual(beanbag.createConfig(),
+                                   beanbag.configs['flat/recommended']);
+        });
+
+        it('Substitutes file patterns', () => {
+            const config = beanbag.createConfig({
+                buildFiles: ['vite.config.ts'],
+                es6Files: ['**/*.mjs'],
+                storyFiles: ['**/*.story.tsx'],
+                testFiles: ['**/*.test.ts'],
+            });
+
+            assert.deepStrictEqual(
+                getNamedConfigs(config, '@beanbag/build')[0].files,
+                ['vite.config.ts']);
+            assert.deepStrictEqual(
+                getNamedConfigs(config, '@beanbag/es6')[0].files,
+                ['**/*.mjs']);
+            assert.deepStrictEqual(
+                getNamedConfigs(config, '@beanbag/storybook')[0].files,
+                ['**/*.story.tsx']);
+            assert.deepStrictEqual(
+                getNamedConfigs(config, '@beanbag/jasmine')[0].files,
+                ['**/*.test.ts']);
+        });
+
+        it('Checks suite names in custom test files', () => {
+            const linter = new Linter({
+                configType: 'flat',
+            });
+            const config = beanbag.createConfig({
+                testFiles: ['**/*.test.js'],
+            });
+            const messages = linter.verify(
+                "suite('rb/views/BarView', function() {});\n",
+                config,
+                'rb/js/views/tests/FooView.test.js');
+
+            assert.deepStrictEqual(
+                messages
+                    .filter(message => (message.ruleId ===
+                                        '@beanbag/jasmine-suite-structure'))
+                    .map(message => message.message),
+                [
+                    'The suite for this file should be named ' +
+                    "'rb/views/FooView', not 'rb/views/BarView'.",
+                ]);
+        });
+
+        it('Checks async specs in custom test files', () => {
+            const linter = new Linter({
+                configType: 'flat',
+            });
+            const config = beanbag.createConfig({
+                es6Files: ['**/*.mjs'],
+                testFiles: ['**/*.test.mjs', '**/*.test.js'],
+            });
+            const code = "it('Saves', function(done) { done(); });\n";
+
+            for (const [filename, expected] of [['foo.test.mjs', 1],
+                                                ['foo.test.js', 0]] as const) {
+                const messages = linter.verify(code, config, filename);
+
+                assert.strictEqual(
+                    messages.filter(message => (
+                        message.ruleId === '@beanbag/jasmine-prefer-async'))
+                        .length,
+                    expected,
+                    filename);
+            }
+        });
+
+        it('Substitutes the maximum line length', () => {
+            const config = beanbag.createConfig({
+                maxLineLength: 99,
+            });
+            const es5Config = getNamedConfigs(config, '@beanbag/es5')[0];
+
+            assert.deepStrictEqual(es5Config.rules['@beanbag/max-len'], [
+                'error',
+                {
+                    code: 99,
+                },
+            ]);
+            assert.deepStrictEqual(es5Config.rules['@beanbag/comment-wrap'], [
+                'warn',
+                {
+                    width: 99,
+                },
+            ]);
+        });
+
+        it('Enables environments', () => {
+            const config = beanbag.createConfig({
+                environments: ['backbone', 'reviewboard'],
+            });
+
+            assert.deepStrictEqual(
+                getNamedConfigs(config, '@beanbag/backbone'),
+                beanbag.configs['flat/backbone']);
+            assert.deepStrictEqual(
+                getNamedConfigs(config, '@beanbag/reviewboard'),
+                beanbag.configs['flat/reviewboard']);
+        });
+
+        it('Rejects unknown environments', () => {
+            assert.throws(
+                () => beanbag.createConfig({
+                    environments: ['bad'],
+                }),
+                /Unknown @beanbag environment "bad"/);
+        });
+
+        it('Leaves out typescript-strict by default', () => {
+            assert.deepStrictEqual(
+                getNamedConfigs(beanbag.createConfig(),
+                                '@beanbag/typescript-strict'),
+                []);
+        });
+
+        it('Enables typescript-strict', () => {
+            const config = beanbag.createConfig({
+                tsconfigRootDir: '/src/project',
+                typescriptStrict: true,
+            });
+            const strictConfigs = getNamedConfigs(
+                config, '@beanbag/typescript-strict');
+
+            assert.strictEqual(strictConfigs.length, 1);
+            assert.deepStrictEqual(
+                strictConfigs[0].languageOptions.parserOptions,
+                {
+                    projectService: true,
+                    tsconfigRootDir: '/src/project',
+                });
+            assert.strictEqual(
+                strictConfigs[0].rules['@typescript-eslint/await-thenable'],
+                'error');
+
+            /* The type-aware rules must come after the TypeScript rules. */
+            assert.ok(
+                config.indexOf(strictConfigs[0]) >
+                config.indexOf(
+                    getNamedConfigs(config, '@beanbag/typescript')[0]));
+        });
+    });
+});
@@ -0,0 +1,10 @@
+/*
+ * Register Babel for loading TypeScript sources and tests under Mocha.
+ */
+
+'use strict';
+
+require('@babel/register')({
+    envName: 'development',
+    extensions: ['.js', '.ts'],
+});
@@ -0,0 +1,256 @@
+/*
+ * Unit tests for the backbone-events rule.
+ */
+
+import * as typescriptParser from '@typescript-eslint/parser';
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/backbone-events';
+
+
+const ruleTester = new RuleTester();
+
+
+ruleTester.run('backbone-events', rule, {
+    invalid: [
+        /* Unknown handlers. */
+        {
+            code: [
+                'const MyView = Backbone.View.extend({',
+                '    events: {',
+                "        'click .save-button': '_onSaveClick',",
+                '    },',
+                '',
+                '    _onSaveClicked() {},',
+                '});',
+            ].join('\n'),
+            errors: [{
+                data: {
+                    handler: '_onSaveClick',
+                },
+                line: 3,
+                messageId: 'unknownHandler',
+            }],
+        },
+        {
+            code: [
+                'class MyView extends Backbone.View {',
+                '    static events = {',
+                "        'click': '_onClick',",
+                '    };',
+                '}',
+            ].join('\n'),
+            errors: [{
+                data: {
+                    handler: '_onClick',
+                },
+                messageId: 'unknownHandler',
+            }],
+        },
+        {
+            code: [
+                'const BaseView = Backbone.View.extend({',
+                '    _onClick() {},',
+                '});',
+                '',
+                'const MyView = BaseView.extend({',
+                '    events: {',
+                "        'click': '_onClick',",
+                "        'change input': '_onChange',",
+                '    },',
+                '});',
+            ].join('\n'),
+            errors: [{
+                data: {
+                    handler: '_onChange',
+                },
+                line: 8,
+                messageId: 'unknownHandler',
+            }],
+        },
+        {
+            code: [
+                'RB.BaseView = Backbone.View.extend({});',
+                '',
+                'class MyView extends RB.BaseView {',
+                '    static events = {',
+                "        'click': '_onClick',",
+                '    };',
+                '}',
+            ].join('\n'),
+            errors: [{
+                messageId: 'unknownHandler',
+            }],
+        },
+
+        /* Empty keys and selectors. */
+        {
+            code: [
+                'Backbone.View.extend({',
+                '    events: {',
+                "        '': 'render',",
+                "        'click ': 'render',",
+                '    },',
+                '});',
+            ].join('\n'),
+            errors: [
+                {
+                    line: 3,
+                    messageId: 'emptyKey',
+                },
+                {
+                    data: {
+                        key: 'click ',
+                    },
+                    line: 4,
+                    messageId: 'emptySelector',
+                },
+            ],
+        },
+
+        /* Duplicate keys. */
+        {
+            code: [
+                'Backbone.View.extend({',
+                '    events: {',
+                "        'click .foo': 'render',",
+                "        'click  .foo': 'remove',",
+                '    },',
+                '});',
+            ].join('\n'),
+            errors: [{
+                data: {
+                    key: 'click .foo',
+                },
+                line: 4,
+                messageId: 'duplicateKey',
+            }],
+        },
+
+        /* Custom base views. */
+        {
+            code: [
+                'class MyView extends BaseView {',
+                '    static events = {',
+                "        'click': '_onClick',",
+                '    };',
+                '}',
+            ].join('\n'),
+            errors: [{
+                messageId: 'unknownHandler',
+            }],
+            options: [{
+                baseViews: ['BaseView'],
+            }],
+        },
+
+        /* TypeScript. */
+        {
+            code: [
+                'class MyView extends Backbone.View<MyModel> {',
+                '    static events = {',
+                "        'click': '_onClick',",
+                '    };',
+                '',
+                '    _onClicked(): void {}',
+                '}',
+            ].join('\n'),
+            errors: [{
+                messageId: 'unknownHandler',
+            }],
+            languageOptions: {
+                parser: typescriptParser,
+            },
+        },
+    ],
+
+    valid: [
+        {
+            code: [
+                'const MyView = Backbone.View.extend({',
+                '    events: {',
+                "        'click .save-button': '_onSaveClicked',",
+                "        'click': 'render',",
+                "        'submit form': function() {},",
+                '    },',
+                '',
+                '    _onSaveClicked() {},',
+                '});',
+            ].join('\n'),
+        },
+        {
+            code: [
+                'class MyView extends Backbone.View {',
+                '    static events = {',
+                "        'click .foo': '_onClick',",
+                "        'click .bar': '_onClick',",
+                "        'keydown': '_onKeyDown',",
+                '    };',
+                '',
+                '    _onKeyDown = () => {};',
+                '',
+                '    _onClick() {}',
+                '}',
+            ].join('\n'),
+        },
+
+        /* Local base views. */
+        {
+            code: [
+                'class BaseView extends Backbone.View {',
+                '    _onClick() {}',
+                '}',
+                '',
+                'class MyView extends BaseView {',
+                '    static events = {',
+                "        'click': '_onClick',",
+                '    };',
+                '}',
+            ].join('\n'),
+        },
+
+        /* Base views defined elsewhere can't be checked. */
+        {
+            code: [
+                'RB.MyView = RB.BaseView.extend({',
+                '    events: {',
+                "        'click': '_onClick',",
+                '    },',
+                '});',
+            ].join('\n'),
+        },
+
+        /* Non-literal events hashes. */
+        {
+            code: [
+                'Backbone.View.extend({',
+                '    events() {',
+                "        return {'click': '_onClick'};",
+                '    },',
+                '});',
+            ].join('\n'),
+        },
+
+        /* Other uses of extend(). */
+        {
+            code: [
+                'const options = _.extend({',
+                '    events: {',
+                "        'click': '_onClick',",
+                '    },',
+                '}, defaults);',
+            ].join('\n'),
+        },
+
+        /* Models aren't views. */
+        {
+            code: [
+                'Backbone.Model.extend({',
+                '    events: {',
+                "        'click': '_onClick',",
+                '    },',
+                '});',
+            ].join('\n'),
+        },
+    ],
+});
@@ -0,0 +1,324 @@
+/*
+ * Unit tests for the backbone-prefer-listento rule.
+ */
+
+import * as typescriptParser from '@typescript-eslint/parser';
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/backbone-prefer-listento';
+
+
+const ruleTester = new RuleTester();
+
+
+ruleTester.run('backbone-prefer-listento', rule, {
+    invalid: [
+        /* Views. */
+        {
+            code: [
+                'const MyView = Backbone.View.extend({',
+                '    initialize() {',
+                "        this.model.on('change', this.render, this);",
+                '    },',
+                '});',
+            ].join('\n'),
+            errors: [{
+                data: {
+                    method: 'on',
+                },
+                line: 3,
+                messageId: 'preferListenTo',
+                suggestions: [{
+                    data: {
+                        object: 'this.model',
+                    },
+                    messageId: 'useListenTo',
+                    output: [
+                        'const MyView = Backbone.View.extend({',
+                        '    initialize() {',
+                        "        this.listenTo(this.model, 'change', " +
+                        'this.render);',
+                        '    },',
+                        '});',
+                    ].join('\n'),
+                }],
+            }],
+        },
+        {
+            code: [
+                'class MyView extends Backbone.View {',
+                '    initialize(options) {',
+                "        options.collection.bind('add', () => this.render());",
+                '    }',
+                '}',
+            ].join('\n'),
+            errors: [{
+                data: {
+                    method: 'bind',
+                },
+                messageId: 'preferListenTo',
+                suggestions: [{
+                    messageId: 'useListenTo',
+                    output: [
+                        'class MyView extends Backbone.View {',
+                        '    initialize(options) {',
+                        '        this.listenTo(options.collection, ' +
+                        "'add', () => this.render());",
+                        '    }',
+                        '}',
+                    ].join('\n'),
+                }],
+            }],
+        },
+
+        /* Models. */
+        {
+            code: [
+                'const MyModel = Backbone.Model.extend({',
+                '    initialize() {',
+                "        this.get('parent').on({change: this._onChange});",
+                "        this.get('parent').on('change', this._onSet, this);",
+                '    },',
+                '});',
+            ].join('\n'),
+            errors: [
+                {
+                    line: 3,
+                    messageId: 'preferListenTo',
+                    suggestions: [],
+                },
+                {
+                    line: 4,
+                    messageId: 'preferListenTo',
+                    suggestions: [{
+                        messageId: 'useListenTo',
+                        output: [
+                            'const MyModel = Backbone.Model.extend({',
+                            '    initialize() {',
+                            "        this.get('parent').on(" +
+                            '{change: this._onChange});',
+                            "        this.listenTo(this.get('parent'), " +
+                            "'change', this._onSet);",
+                            '    },',
+                            '});',
+                        ].join('\n'),
+                    }],
+                },
+            ],
+        },
+
+        /* Handlers called with the object as `this`. */
+        {
+            code: [
+                'Backbone.View.extend({',
+                '    initialize() {',
+                "        this.model.on('change', function() {",
+                '            this.render();',
+                '        });',
+                "        this.model.on('destroy', this.remove);",
+                '    },',
+                '});',
+            ].join('\n'),
+            errors: [
+                {
+                    line: 3,
+                    messageId: 'preferListenTo',
+                    suggestions: [],
+                },
+                {
+                    line: 6,
+                    messageId: 'preferListenTo',
+                    suggestions: [],
+                },
+            ],
+        },
+
+        /* Local base classes. */
+        {
+            code: [
+                'const BaseView = Backbone.View.extend({});',
+                '',
+                'const MyView = BaseView.extend({',
+                '    render() {',
+                "        this.model.on('change', this.render, otherContext);",
+                '    },',
+                '});',
+            ].join('\n'),
+            errors: [{
+                messageId: 'preferListenTo',
+                suggestions: [],
+            }],
+        },
+
+        /* Nested functions with a different `this`. */
+        {
+            code: [
+                'Backbone.View.extend({',
+                '    render() {',
+                '        items.forEach(function(item) {',
+                "            item.on('change', this.render, this);",
+                '        });',
+                '    },',
+                '});',
+            ].join('\n'),
+            errors: [{
+                messageId: 'preferListenTo',
+                suggestions: [],
+            }],
+        },
+
+        /* Unbinding somewhere other than remove(). */
+        {
+            code: [
+                'Backbone.View.extend({',
+                '    initialize() {',
+                "        this.model.on('change', this.render, this);",
+                '    },',
+                '',
+                '    close() {',
+                "        this.model.off('change', this.render, this);",
+                '    },',
+                '',
+                '    remove() {',
+                "        this.model.off('destroy');",
+                '    },',
+                '});',
+            ].join('\n'),
+            errors: [{
+                line: 3,
+                messageId: 'preferListenTo',
+                suggestions: [{
+                    messageId: 'useListenTo',
+                    output: [
+                        'Backbone.View.extend({',
+                        '    initialize() {',
+                        "        this.listenTo(this.model, 'change', " +
+                        'this.render);',
+                        '    },',
+                        '',
+                        '    close() {',
+                        "        this.model.off('change', this.render, this);",
+                        '    },',
+                        '',
+                        '    remove() {',
+                        "        this.model.off('destroy');",
+                        '    },',
+                        '});',
+                    ].join('\n'),
+                }],
+            }],
+        },
+
+        /* TypeScript. */
+        {
+            code: [
+                'class MyView extends Backbone.View<MyModel> {',
+                '    initialize(): void {',
+                "        this.model.on('change', this.render, this);",
+                '    }',
+                '}',
+            ].join('\n'),
+            errors: [{
+                messageId: 'preferListenTo',
+                suggestions: [{
+                    messageId: 'useListenTo',
+                    output: [
+                        'class MyView extends Backbone.View<MyModel> {',
+                        '    initialize(): void {',
+                        "        this.listenTo(this.model, 'change', " +
+                        'this.render);',
+                        '    }',
+                        '}',
+                    ].join('\n'),
+                }],
+            }],
+            languageOptions: {
+                parser: typescriptParser,
+            },
+        },
+    ],
+
+    valid: [
+        /* listenTo() and calls on `this`. */
+        {
+            code: [
+                'Backbone.View.extend({',
+                '    initialize() {',
+                "        this.listenTo(this.model, 'change', this.render);",
+                "        this.on('rendered', this._onRendered, this);",
+                '    },',
+                '});',
+            ].join('\n'),
+        },
+
+        /* jQuery objects. */
+        {
+            code: [
+                'Backbone.View.extend({',
+                '    render() {',
+                "        this.$el.on('click', this._onClick);",
+                "        this.$('.foo').on('click', this._onClick);",
+                "        $(window).on('resize', this._onResize);",
+                "        this._$button.find('a').on('click', this._onClick);",
+                '    },',
+                '});',
+            ].join('\n'),
+        },
+
+        /* Function.prototype.bind(). */
+        {
+            code: [
+                'Backbone.View.extend({',
+                '    render() {',
+                "        setTimeout(this._onTimeout.bind(this, 'x'), 100);",
+                '    },',
+                '});',
+            ].join('\n'),
+        },
+
+        /* Matching off() in remove(). */
+        {
+            code: [
+                'Backbone.View.extend({',
+                '    initialize() {',
+                "        this.model.on('change', this.render, this);",
+                "        this.options.foo.on('change', this.render, this);",
+                '    },',
+                '',
+                '    remove() {',
+                "        this.model.off('change', this.render, this);",
+                '        this.options.foo.off(null, null, this);',
+                '    },',
+                '});',
+            ].join('\n'),
+        },
+        {
+            code: [
+                'const BaseView = Backbone.View.extend({',
+                '    remove() {',
+                '        this.model.off();',
+                '    },',
+                '});',
+                '',
+                'const MyView = BaseView.extend({',
+                '    initialize() {',
+                "        this.model.on('change', this.render, this);",
+                '    },',
+                '});',
+            ].join('\n'),
+        },
+
+        /* Code outside of Backbone classes. */
+        {
+            code: [
+                "model.on('change', onChange);",
+                '',
+                'const Foo = Other.extend({',
+                '    initialize() {',
+                "        this.model.on('change', this.render, this);",
+                '    },',
+                '});',
+            ].join('\n'),
+        },
+    ],
+});
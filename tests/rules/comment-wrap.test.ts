@@ -0,0 +1,442 @@
+/*
+ * Unit tests for the comment-wrap rule.
+ */
+
+import * as typescriptParser from '@typescript-eslint/parser';
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/comment-wrap';
+
+
+const ruleTester = new RuleTester();
+
+
+ruleTester.run('comment-wrap', rule, {
+    invalid: [
+        /* Starred block comments. */
+        {
+            code: [
+                '/*',
+                ' * This is a long comment that would otherwise run past ' +
+                'the end of the line it is on.',
+                ' */',
+            ].join('\n'),
+            errors: [{
+                data: {
+                    width: '79',
+                },
+                line: 2,
+                messageId: 'tooLong',
+            }],
+            output: [
+                '/*',
+                ' * This is a long comment that would otherwise run past ' +
+                'the end of the line it',
+                ' * is on.',
+                ' */',
+            ].join('\n'),
+        },
+        {
+            code: [
+                'function foo() {',
+                '    /**',
+                '     * This is a long comment that would otherwise run',
+                '     * past the end.',
+                '     *',
+                '     * A second paragraph.',
+                '     */',
+                '}',
+            ].join('\n'),
+            errors: [{
+                data: {
+                    width: '40',
+                },
+                line: 3,
+                messageId: 'tooLong',
+            }],
+            options: [{
+                width: 40,
+            }],
+            output: [
+                'function foo() {',
+                '    /**',
+                '     * This is a long comment that would',
+                '     * otherwise run past the end.',
+                '     *',
+                '     * A second paragraph.',
+                '     */',
+                '}',
+            ].join('\n'),
+        },
+
+        /* Line comments. */
+        {
+            code: [
+                'function foo() {',
+                '    // A line comment that goes on and on past the width.',
+                '    // It continues here.',
+                '    bar();',
+                '}',
+            ].join('\n'),
+            errors: [{
+                line: 2,
+                messageId: 'tooLong',
+            }],
+            options: [{
+                width: 40,
+            }],
+            output: [
+                'function foo() {',
+                '    // A line comment that goes on and',
+                '    // on past the width. It continues',
+                '    // here.',
+                '    bar();',
+                '}',
+            ].join('\n'),
+        },
+        {
+            code: [
+                '// A line comment that goes on past the width.',
+                '//',
+                '// A second paragraph that is too long to fit.',
+            ].join('\n'),
+            errors: [
+                {
+                    line: 1,
+                    messageId: 'tooLong',
+                },
+                {
+                    line: 3,
+                    messageId: 'tooLong',
+                },
+            ],
+            options: [{
+                width: 40,
+            }],
+            output: [
+                '// A line comment that goes on past the',
+                '// width.',
+                '//',
+                '// A second paragraph that is too long',
+                '// to fit.',
+            ].join('\n'),
+        },
+
+        /* Lists and labels. */
+        {
+            code: [
+                '/*',
+                ' * * A bullet item which is long enough to need wrapping.',
+                ' * * Short item.',
+                ' * 1. A numbered item which is also long enough to wrap.',
+                ' */',
+            ].join('\n'),
+            errors: [
+                {
+                    line: 2,
+                    messageId: 'tooLong',
+                },
+                {
+                    line: 4,
+                    messageId: 'tooLong',
+                },
+            ],
+            options: [{
+                width: 40,
+            }],
+            output: [
+                '/*',
+                ' * * A bullet item which is long enough',
+                ' *   to need wrapping.',
+                ' * * Short item.',
+                ' * 1. A numbered item which is also long',
+                ' *    enough to wrap.',
+                ' */',
+            ].join('\n'),
+        },
+        {
+            code: [
+                '/*',
+                ' * NOTE: Labels get a hanging indent when they wrap',
+                ' *       around.',
+                ' */',
+            ].join('\n'),
+            errors: [{
+                line: 2,
+                messageId: 'tooLong',
+            }],
+            options: [{
+                width: 40,
+            }],
+            output: [
+                '/*',
+                ' * NOTE: Labels get a hanging indent',
+                ' *       when they wrap around.',
+                ' */',
+            ].join('\n'),
+        },
+
+        /* Docstring sections. */
+        {
+            code: [
+                '/**',
+                ' * Do a thing.',
+                ' *',
+                ' * Args:',
+                ' *     someArgumentName (string):',
+                ' *         The description of the argument, which is long.',
+                ' *',
+                ' * Returns:',
+                ' *     boolean:',
+                ' *     Whether the thing was done, which is also long.',
+                ' */',
+            ].join('\n'),
+            errors: [
+                {
+                    line: 6,
+                    messageId: 'tooLong',
+                },
+                {
+                    line: 10,
+                    messageId: 'tooLong',
+                },
+            ],
+            options: [{
+                width: 40,
+            }],
+            output: [
+                '/**',
+                ' * Do a thing.',
+                ' *',
+                ' * Args:',
+                ' *     someArgumentName (string):',
+                ' *         The description of the',
+                ' *         argument, which is long.',
+                ' *',
+                ' * Returns:',
+                ' *     boolean:',
+                ' *     Whether the thing was done, which',
+                ' *     is also long.',
+                ' */',
+            ].join('\n'),
+        },
+
+        /* Code samples are kept around reflowed paragraphs. */
+        {
+            code: [
+                '/*',
+                ' * An example of something long enough to wrap:',
+                ' *',
+                ' *     if (foo) { doSomethingLongEnoughToWrap(); }',
+                ' */',
+            ].join('\n'),
+            errors: [{
+                line: 2,
+                messageId: 'tooLong',
+            }],
+            options: [{
+                width: 40,
+            }],
+            output: [
+                '/*',
+                ' * An example of something long enough',
+                ' * to wrap:',
+                ' *',
+                ' *     if (foo) { doSomethingLongEnoughToWrap(); }',
+                ' */',
+            ].join('\n'),
+        },
+
+        {
+            code: [
+                '/*',
+                ' * Code samples after a header that is long enough to wrap.',
+                ' *',
+                ' * Not:',
+                ' *',
+                ' *     someObject.someMethod(firstArgument, secondArgument);',
+                ' *     other();',
+                ' */',
+            ].join('\n'),
+            errors: [{
+                line: 2,
+                messageId: 'tooLong',
+            }],
+            options: [{
+                width: 40,
+            }],
+            output: [
+                '/*',
+                ' * Code samples after a header that is',
+                ' * long enough to wrap.',
+                ' *',
+                ' * Not:',
+                ' *',
+                ' *     someObject.someMethod(firstArgument, secondArgument);',
+                ' *     other();',
+                ' */',
+            ].join('\n'),
+        },
+
+        /* TypeScript. */
+        {
+            code: [
+                'interface Foo {',
+                '    /* A comment on a field that is far too long. */',
+                '    bar: string;',
+                '',
+                '    // A line comment on a field that is too long.',
+                '    baz: number;',
+                '}',
+            ].join('\n'),
+            errors: [{
+                line: 5,
+                messageId: 'tooLong',
+            }],
+            languageOptions: {
+                parser: typescriptParser,
+            },
+            options: [{
+                width: 40,
+            }],
+            output: [
+                'interface Foo {',
+                '    /* A comment on a field that is far too long. */',
+                '    bar: string;',
+                '',
+                '    // A line comment on a field that is',
+                '    // too long.',
+                '    baz: number;',
+                '}',
+            ].join('\n'),
+        },
+    ],
+
+    valid: [
+        /* Comments that fit. */
+        {
+            code: [
+                '/*',
+                ' * A short comment.',
+                ' * Hand-wrapped lines are left alone.',
+                ' */',
+                '// A short line comment.',
+            ].join('\n'),
+            options: [{
+                width: 40,
+            }],
+        },
+
+        /* Code samples. */
+        {
+            code: [
+                '/*',
+                ' * For example:',
+                ' *',
+                ' *     if (foo) { doSomethingVeryLongHereThatIsTooLong(); }',
+                ' */',
+            ].join('\n'),
+            options: [{
+                width: 40,
+            }],
+        },
+        {
+            code: [
+                '/*',
+                ' * Example:',
+                ' *     if (foo) { doSomethingVeryLongHereThatIsTooLong(); }',
+                ' */',
+            ].join('\n'),
+            options: [{
+                width: 40,
+            }],
+        },
+        {
+            code: [
+                '/*',
+                ' * Not:',
+                ' *     someObject.someMethod(firstArgument, secondArgument);',
+                ' *     other();',
+                ' */',
+            ].join('\n'),
+            options: [{
+                width: 40,
+            }],
+        },
+        {
+            code: [
+                '/*',
+                ' * ```',
+                ' * if (foo) { doSomethingVeryLongHereThatIsTooLong(); }',
+                ' * ```',
+                ' */',
+            ].join('\n'),
+            options: [{
+                width: 40,
+            }],
+        },
+
+        /* URLs. */
+        {
+            code: [
+                '/*',
+                ' * See:',
+                ' * https://example.com/a/very/long/url/that/is/long',
+                ' */',
+                '// https://example.com/a/very/long/url/that/is/long',
+            ].join('\n'),
+            options: [{
+                width: 40,
+            }],
+        },
+
+        /* Section headers and argument names. */
+        {
+            code: [
+                '/**',
+                ' * Args:',
+                ' *     someVeryLongArgumentName (SomeLongTypeName):',
+                ' *         The argument.',
+                ' */',
+            ].join('\n'),
+            options: [{
+                width: 40,
+            }],
+        },
+
+        /* Words too long to wrap. */
+        {
+            code: [
+                '/*',
+                ' * someVeryLongIdentifierThatCannotBeWrapped',
+                ' */',
+            ].join('\n'),
+            options: [{
+                width: 40,
+            }],
+        },
+
+        /* Directives, trailing comments, and non-starred comments. */
+        {
+            code: [
+                '// eslint-disable-next-line no-unused-vars, no-undef',
+                'foo(); // A trailing comment that is too long to fit.',
+                '/* A single-line block comment that is too long. */',
+                '/* A block comment that starts with text',
+                '   and is far too long to fit within the width. */',
+            ].join('\n'),
+            options: [{
+                width: 40,
+            }],
+        },
+        {
+            code: '/// <reference types="some-very-long-package-name" />',
+            languageOptions: {
+                parser: typescriptParser,
+            },
+            options: [{
+                width: 40,
+            }],
+        },
+    ],
+});
@@ -0,0 +1,278 @@
+/*
+ * Unit tests for the dedent rule.
+ */
+
+import * as typescriptParser from '@typescript-eslint/parser';
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/dedent';
+
+
+const ruleTester = new RuleTester();
+
+
+ruleTester.run('dedent', rule, {
+    invalid: [
+        /* Calling dedent as a function. */
+        {
+            code: [
+                'const a = dedent(`',
+                '    <div></div>',
+                '`);',
+            ].join('\n'),
+            errors: [{
+                line: 1,
+                messageId: 'useAsTag',
+            }],
+            output: [
+                'const a = dedent`',
+                '    <div></div>',
+                '`;',
+            ].join('\n'),
+        },
+        {
+            code: [
+                "const a = dedent('foo');",
+                'const b = dedent(`foo\\n    bar`);',
+                'const c = dedent(/* Text. */ `foo`);',
+                'const d = dedent(text);',
+            ].join('\n'),
+            errors: [
+                {
+                    line: 1,
+                    messageId: 'useAsTag',
+                },
+                {
+                    line: 2,
+                    messageId: 'useAsTag',
+                },
+                {
+                    line: 3,
+                    messageId: 'useAsTag',
+                },
+                {
+                    line: 4,
+                    messageId: 'useAsTag',
+                },
+            ],
+            output: null,
+        },
+
+        /* Multi-line template literals without dedent. */
+        {
+            code: [
+                'function render() {',
+                '    return `',
+                '        <div>${_.escape(name)}</div>',
+                '    `;',
+                '}',
+            ].join('\n'),
+            errors: [{
+                line: 2,
+                messageId: 'missingDedent',
+                suggestions: [{
+                    messageId: 'addDedent',
+                    output: [
+                        'function render() {',
+                        '    return dedent`',
+                        '        <div>${_.escape(name)}</div>',
+                        '    `;',
+                        '}',
+                    ].join('\n'),
+                }],
+            }],
+        },
+
+        /* Inconsistent indentation. */
+        {
+            code: [
+                'const a = dedent`',
+                '    <ul>',
+                '\t<li></li>',
+                '    </ul>',
+                '`;',
+            ].join('\n'),
+            errors: [{
+                column: 1,
+                endColumn: 2,
+                line: 3,
+                messageId: 'inconsistentIndent',
+            }],
+        },
+
+        /* Text that isn't indented past the start of the template. */
+        {
+            code: [
+                'class MyView {',
+                '    render() {',
+                '        this.el.innerHTML = dedent`',
+                '        <div>',
+                '         ${_.escape(name)}',
+                '',
+                '        </div>',
+                '        `;',
+                '    }',
+                '}',
+            ].join('\n'),
+            errors: [{
+                line: 3,
+                messageId: 'notIndented',
+            }],
+            output: [
+                'class MyView {',
+                '    render() {',
+                '        this.el.innerHTML = dedent`',
+                '            <div>',
+                '             ${_.escape(name)}',
+                '',
+                '            </div>',
+                '        `;',
+                '    }',
+                '}',
+            ].join('\n'),
+        },
+        {
+            code: [
+                'const a = dedent`',
+                'foo',
+                '  bar',
+                '`;',
+            ].join('\n'),
+            errors: [{
+                messageId: 'notIndented',
+            }],
+            output: null,
+        },
+        {
+            code: [
+                'const a = dedent`',
+                'foo',
+                'bar`;',
+            ].join('\n'),
+            errors: [{
+                messageId: 'notIndented',
+            }],
+            output: [
+                'const a = dedent`',
+                '    foo',
+                '    bar`;',
+            ].join('\n'),
+        },
+
+        /* Single-line dedent. */
+        {
+            code: [
+                'const a = dedent`Name`;',
+                'const b = dedent`<b>${_.escape(name)}</b>`;',
+            ].join('\n'),
+            errors: [
+                {
+                    line: 1,
+                    messageId: 'singleLine',
+                },
+                {
+                    line: 2,
+                    messageId: 'singleLine',
+                },
+            ],
+            output: [
+                'const a = `Name`;',
+                'const b = `<b>${_.escape(name)}</b>`;',
+            ].join('\n'),
+        },
+        {
+            code: [
+                'const a = dedent` Name `;',
+                'const b = dedent`Name\\n`;',
+            ].join('\n'),
+            errors: [
+                {
+                    line: 1,
+                    messageId: 'singleLine',
+                },
+                {
+                    line: 2,
+                    messageId: 'singleLine',
+                },
+            ],
+            output: null,
+        },
+
+        /* TypeScript. */
+        {
+            code: [
+                'const a: string = dedent`',
+                '<p>${_.escape(this.name as string)}</p>`;',
+            ].join('\n'),
+            errors: [{
+                messageId: 'notIndented',
+            }],
+            languageOptions: {
+                parser: typescriptParser,
+            },
+            output: [
+                'const a: string = dedent`',
+                '    <p>${_.escape(this.name as string)}</p>`;',
+            ].join('\n'),
+        },
+    ],
+
+    valid: [
+        {
+            code: [
+                'class MyView {',
+                '    render() {',
+                '        this.el.innerHTML = dedent`',
+                '            <ul>',
+                '             ${items.map(item => `',
+                '                 <li>${_.escape(item)}</li>',
+                '             `)}',
+                '',
+                '            </ul>',
+                '        `;',
+                '    }',
+                '}',
+            ].join('\n'),
+            options: [{
+                requireForMultiLine: false,
+            }],
+        },
+        {
+            code: [
+                'const a = dedent`',
+                '    <div>',
+                '     ${_.escape(',
+                '  name)}',
+                '    </div>',
+                '`;',
+                'const b = dedent`',
+                '\t<div></div>',
+                '`;',
+            ].join('\n'),
+        },
+
+        /* Single-line template literals and other tags. */
+        {
+            code: [
+                'const a = `<b>${_.escape(name)}</b>`;',
+                'const b = `${a} ${',
+                '    b}`;',
+                'const c = html`',
+                '<div></div>',
+                '`;',
+            ].join('\n'),
+        },
+
+        /* Multi-line template literals in tests. */
+        {
+            code: [
+                'expect(el.innerHTML).toBe(`',
+                '<div></div>',
+                '`);',
+            ].join('\n'),
+            options: [{
+                requireForMultiLine: false,
+            }],
+        },
+    ],
+});
@@ -0,0 +1,290 @@
+/*
+ * Unit tests for the docstrings rule.
+ */
+
+import * as typescriptParser from '@typescript-eslint/parser';
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/docstrings';
+
+
+const ruleTester = new RuleTester();
+const tsLanguageOptions = {
+    parser: typescriptParser,
+};
+
+
+ruleTester.run('docstrings', rule, {
+    invalid: [
+        /* Missing docstrings. */
+        {
+            code: 'export function foo() {}',
+            errors: [{
+                data: {
+                    kind: 'function',
+                    name: 'foo',
+                },
+                messageId: 'missingDocstring',
+            }],
+        },
+        {
+            code: [
+                '// Not a docstring.',
+                'export const foo = () => {};',
+            ].join('\n'),
+            errors: [{ messageId: 'missingDocstring' }],
+        },
+        {
+            code: [
+                '/* Not starred. */',
+                'export class Foo {}',
+            ].join('\n'),
+            errors: [{
+                data: {
+                    kind: 'class',
+                    name: 'Foo',
+                },
+                messageId: 'missingDocstring',
+            }],
+        },
+        {
+            code: [
+                '/*',
+                ' * A class.',
+                ' */',
+                'export default class Foo {',
+                '    bar() {}',
+                '}',
+            ].join('\n'),
+            errors: [{
+                data: {
+                    kind: 'method',
+                    name: 'bar',
+                },
+                messageId: 'missingDocstring',
+            }],
+        },
+        {
+            code: [
+                '/*',
+                ' * Separated by a blank line.',
+                ' */',
+                '',
+                'export function foo() {}',
+            ].join('\n'),
+            errors: [{ messageId: 'missingDocstring' }],
+        },
+        {
+            code: 'function foo() {}',
+            errors: [{ messageId: 'missingDocstring' }],
+            options: [{ exportedOnly: false }],
+        },
+
+        /* Mismatched arguments. */
+        {
+            code: [
+                '/*',
+                ' * A function.',
+                ' *',
+                ' * Args:',
+                ' *     a (number):',
+                ' *         The first number.',
+                ' *',
+                ' *     c (number):',
+                ' *         A number that isn\'t there.',
+                ' */',
+                'export function foo(a, b) {}',
+            ].join('\n'),
+            errors: [
+                {
+                    data: { name: 'c' },
+                    messageId: 'unknownArg',
+                },
+                {
+                    data: { name: 'b' },
+                    messageId: 'missingArg',
+                },
+            ],
+        },
+        {
+            code: [
+                '/*',
+                ' * A function with no Args section.',
+                ' */',
+                'export function foo(a = 1, ...rest) {}',
+            ].join('\n'),
+            errors: [
+                {
+                    data: { name: 'a' },
+                    messageId: 'missingArg',
+                },
+                {
+                    data: { name: 'rest' },
+                    messageId: 'missingArg',
+                },
+            ],
+        },
+
+        /* Missing Returns. */
+        {
+            code: [
+                '/*',
+                ' * A function.',
+                ' */',
+                'export function foo() {',
+                '    return 1;',
+                '}',
+            ].join('\n'),
+            errors: [{
+                data: { kind: 'function' },
+                messageId: 'missingReturns',
+            }],
+        },
+        {
+            code: [
+                '/*',
+                ' * A function.',
+                ' */',
+                'export const foo = () => 1;',
+            ].join('\n'),
+            errors: [{ messageId: 'missingReturns' }],
+        },
+        {
+            code: [
+                '/*',
+                ' * A class.',
+                ' */',
+                'export class Foo {',
+                '    /*',
+                '     * A method.',
+                '     */',
+                '    bar() {',
+                '        return 1;',
+                '    }',
+                '}',
+            ].join('\n'),
+            errors: [{
+                data: { kind: 'method' },
+                messageId: 'missingReturns',
+            }],
+        },
+    ],
+
+    valid: [
+        /* Non-exported declarations aren't checked by default. */
+        'function foo() {}',
+        'class Foo { bar() {} }',
+        'const foo = () => 1;',
+
+        /* Returns from nested functions don't count. */
+        [
+            '/*',
+            ' * A function.',
+            ' */',
+            'export function foo() {',
+            '    [1].map(function(a) { return a; });',
+            '}',
+        ].join('\n'),
+
+        /* Complete docstrings. */
+        [
+            '/**',
+            ' * Return the sum of two numbers.',
+            ' *',
+            ' * Args:',
+            ' *     a (number):',
+            ' *         The first number.',
+            ' *',
+            ' *     b (number, optional):',
+            ' *         The second number.',
+            ' *',
+            ' *     *others (Array of number):',
+            ' *         Other numbers.',
+            ' *',
+            ' * Returns:',
+            ' *     number:',
+            ' *     The sum.',
+            ' */',
+            'export function add(a, b = 0, ...others) {',
+            '    return a + b;',
+            '}',
+        ].join('\n'),
+        [
+            '/*',
+            ' * A class.',
+            ' *',
+            ' * Version Added:',
+            ' *     3.0',
+            ' */',
+            'export class Foo {',
+            '    /*',
+            '     * Initialize the object.',
+            '     *',
+            '     * Args:',
+            '     *     options (object):',
+            '     *         Options for the object.',
+            '     */',
+            '    constructor(options) {}',
+            '',
+            '    /*',
+            '     * The value.',
+            '     */',
+            '    get value() {',
+            '        return 1;',
+            '    }',
+            '}',
+        ].join('\n'),
+
+        /* Destructured parameters may be documented under any name. */
+        [
+            '/*',
+            ' * A function.',
+            ' *',
+            ' * Args:',
+            ' *     options (object):',
+            ' *         Options for the function.',
+            ' */',
+            'export function foo({ a, b }) {}',
+        ].join('\n'),
+
+        /* TypeScript. */
+        {
+            code: [
+                '/*',
+                ' * A function.',
+                ' *',
+                ' * Args:',
+                ' *     a (string):',
+                ' *         A string.',
+                ' */',
+                'export function foo(this: Foo, a: string): void {',
+                '    return;',
+                '}',
+                '',
+                '/*',
+                ' * A function.',
+                ' */',
+                'export async function bar(): Promise<void> {}',
+            ].join('\n'),
+            languageOptions: tsLanguageOptions,
+        },
+        {
+            code: [
+                '/*',
+                ' * A class.',
+                ' */',
+                'export class Foo {',
+                '    /*',
+                '     * Initialize the object.',
+                '     *',
+                '     * Args:',
+                '     *     name (string):',
+                '     *         The name.',
+                '     */',
+                '    constructor(private name: string) {}',
+                '}',
+            ].join('\n'),
+            languageOptions: tsLanguageOptions,
+        },
+    ],
+});
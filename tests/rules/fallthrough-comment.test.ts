@@ -0,0 +1,268 @@
+/*
+ * Unit tests for the fallthrough-comment rule.
+ */
+
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/fallthrough-comment';
+
+
+const ruleTester = new RuleTester();
+
+
+ruleTester.run('fallthrough-comment', rule, {
+    invalid: [
+        /* Missing markers. */
+        {
+            code: [
+                'switch (a) {',
+                '    case 1:',
+                '        foo();',
+                '',
+                '    case 2:',
+                '        bar();',
+                '}',
+            ].join('\n'),
+            errors: [{
+                data: {
+                    keyword: 'case',
+                    marker: 'Fall through.',
+                },
+                line: 5,
+                messageId: 'missingMarker',
+                suggestions: [{
+                    data: { marker: 'Fall through.' },
+                    messageId: 'insertMarker',
+                    output: [
+                        'switch (a) {',
+                        '    case 1:',
+                        '        foo();',
+                        '        // Fall through.',
+                        '',
+                        '    case 2:',
+                        '        bar();',
+                        '}',
+                    ].join('\n'),
+                }],
+            }],
+        },
+        {
+            code: [
+                'switch (a) {',
+                '    case 1:',
+                '        if (b) {',
+                '            break;',
+                '        }',
+                '    default:',
+                '        bar();',
+                '}',
+            ].join('\n'),
+            errors: [{
+                data: {
+                    keyword: 'default',
+                    marker: 'Fall-through',
+                },
+                messageId: 'missingMarker',
+                suggestions: [{
+                    messageId: 'insertMarker',
+                    output: [
+                        'switch (a) {',
+                        '    case 1:',
+                        '        if (b) {',
+                        '            break;',
+                        '        }',
+                        '        // Fall-through',
+                        '    default:',
+                        '        bar();',
+                        '}',
+                    ].join('\n'),
+                }],
+            }],
+            options: [{ marker: 'Fall-through' }],
+        },
+
+        /* Variant markers. */
+        {
+            code: [
+                'switch (a) {',
+                '    case 1:',
+                '        foo();',
+                '        // fallthrough',
+                '',
+                '    case 2:',
+                '        bar();',
+                '}',
+            ].join('\n'),
+            errors: [{
+                data: { marker: 'Fall through.' },
+                line: 4,
+                messageId: 'nonCanonical',
+            }],
+            output: [
+                'switch (a) {',
+                '    case 1:',
+                '        foo();',
+                '        // Fall through.',
+                '',
+                '    case 2:',
+                '        bar();',
+                '}',
+            ].join('\n'),
+        },
+        {
+            code: [
+                'switch (a) {',
+                '    case 1:',
+                '        foo(); /* Fall-through */',
+                '    case 2:',
+                '        bar();',
+                '}',
+            ].join('\n'),
+            errors: [{ messageId: 'nonCanonical' }],
+            output: [
+                'switch (a) {',
+                '    case 1:',
+                '        foo(); /* Fall through. */',
+                '    case 2:',
+                '        bar();',
+                '}',
+            ].join('\n'),
+        },
+        {
+            code: [
+                'switch (a) {',
+                '    case 1: {',
+                '        foo();',
+                '        // Fall through.',
+                '    }',
+                '    case 2:',
+                '        bar();',
+                '}',
+            ].join('\n'),
+            errors: [{ messageId: 'nonCanonical' }],
+            options: [{ marker: 'Falls through.' }],
+            output: [
+                'switch (a) {',
+                '    case 1: {',
+                '        foo();',
+                '        // Falls through.',
+                '    }',
+                '    case 2:',
+                '        bar();',
+                '}',
+            ].join('\n'),
+        },
+
+        /* Custom markers. */
+        {
+            code: [
+                'switch (a) {',
+                '    case 1:',
+                '        foo();',
+                '',
+                '    case 2:',
+                '        bar();',
+                '}',
+            ].join('\n'),
+            errors: [{
+                messageId: 'missingMarker',
+                suggestions: [{
+                    messageId: 'insertMarker',
+                    output: [
+                        'switch (a) {',
+                        '    case 1:',
+                        '        foo();',
+                        '        // No break.',
+                        '',
+                        '    case 2:',
+                        '        bar();',
+                        '}',
+                    ].join('\n'),
+                }],
+            }],
+            options: [{ marker: 'No break.' }],
+        },
+    ],
+
+    valid: [
+        [
+            'switch (a) {',
+            '    case 1:',
+            '        foo();',
+            '        // Fall through.',
+            '',
+            '    case 2:',
+            '        bar();',
+            '        break;',
+            '',
+            '    default:',
+            '        baz();',
+            '}',
+        ].join('\n'),
+
+        /* Empty cases, and cases that don't fall through. */
+        [
+            'function f() {',
+            'switch (a) {',
+            '    case 1:',
+            '    case 2:',
+            '        foo();',
+            '        break;',
+            '',
+            '    case 3:',
+            '        return;',
+            '',
+            '    case 4:',
+            '        throw new Error();',
+            '',
+            '    case 5: {',
+            '        break;',
+            '    }',
+            '',
+            '    default:',
+            '        bar();',
+            '}',
+            '}',
+        ].join('\n'),
+
+        /* Markers with additional text are left alone. */
+        [
+            'switch (a) {',
+            '    case 1:',
+            '        foo();',
+            '        // Fall through to the default handling.',
+            '',
+            '    default:',
+            '        bar();',
+            '}',
+        ].join('\n'),
+
+        /* Markers in trailing blocks. */
+        [
+            'switch (a) {',
+            '    case 1: {',
+            '        foo();',
+            '        // Fall through.',
+            '    }',
+            '',
+            '    case 2:',
+            '        bar();',
+            '}',
+        ].join('\n'),
+
+        /* Custom markers. */
+        {
+            code: [
+                'switch (a) {',
+                '    case 1:',
+                '        foo();',
+                '        // No break.',
+                '',
+                '    case 2:',
+                '        bar();',
+                '}',
+            ].join('\n'),
+            options: [{ marker: 'No break.' }],
+        },
+    ],
+});
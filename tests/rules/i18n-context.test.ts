@@ -0,0 +1,62 @@
+/*
+ * Unit tests for the i18n-context rule.
+ */
+
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/i18n-context';
+
+
+const ruleTester = new RuleTester();
+
+
+ruleTester.run('i18n-context', rule, {
+    invalid: [
+        {
+            code: "pgettext(context, 'Close');",
+            errors: [{
+                data: { name: 'pgettext' },
+                messageId: 'nonLiteralContext',
+            }],
+        },
+        {
+            code: "pgettext('verb ' + type, 'Close');",
+            errors: [{ messageId: 'nonLiteralContext' }],
+        },
+        {
+            code: "npgettext(context, '%s issue', '%s issues', count);",
+            errors: [{
+                data: { name: 'npgettext' },
+                messageId: 'nonLiteralContext',
+            }],
+        },
+        {
+            code: "pgettext('Close');",
+            errors: [{
+                data: { name: 'pgettext' },
+                messageId: 'missingContext',
+            }],
+        },
+        {
+            code: 'pgettext();',
+            errors: [{ messageId: 'missingContext' }],
+        },
+        {
+            code: "npgettext('%s issue', '%s issues', count);",
+            errors: [{ messageId: 'missingContext' }],
+        },
+    ],
+
+    valid: [
+        "pgettext('verb', 'Close');",
+        'pgettext(`verb`, `Close`);',
+        "npgettext('review', '%s issue', '%s issues', count);",
+
+        /* Functions without a context aren't checked. */
+        "gettext('Close');",
+        "ngettext('%s file', '%s files', count);",
+
+        /* Local functions aren't checked. */
+        "function pgettext(s) { return s; } pgettext('Close');",
+    ],
+});
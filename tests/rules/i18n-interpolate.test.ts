@@ -0,0 +1,108 @@
+/*
+ * Unit tests for the i18n-interpolate rule.
+ */
+
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/i18n-interpolate';
+
+
+const ruleTester = new RuleTester();
+
+
+ruleTester.run('i18n-interpolate', rule, {
+    invalid: [
+        /* Positional placeholders. */
+        {
+            code: "interpolate(gettext('%s of %s'), [current]);",
+            errors: [{
+                data: {
+                    actual: '1',
+                    expected: '2',
+                },
+                messageId: 'positionalCount',
+            }],
+        },
+        {
+            code: "interpolate('%s', [a, b]);",
+            errors: [{ messageId: 'positionalCount' }],
+        },
+        {
+            code: "interpolate(gettext('%s of %s'), {a: 1, b: 2});",
+            errors: [{ messageId: 'positionalRequiresArray' }],
+        },
+        {
+            code: "interpolate(gettext('%s files'), [count], true);",
+            errors: [{ messageId: 'positionalRequiresArray' }],
+        },
+
+        /* Named placeholders. */
+        {
+            code: "interpolate(gettext('%(count)s files'), {count: 1});",
+            errors: [{ messageId: 'namedNotEnabled' }],
+        },
+        {
+            code: [
+                "interpolate(gettext('%(count)s files'),",
+                '            {count: 1},',
+                '            false);',
+            ].join('\n'),
+            errors: [{ messageId: 'namedNotEnabled' }],
+        },
+        {
+            code: "interpolate(gettext('%(count)s files'), [count], true);",
+            errors: [{ messageId: 'namedRequiresObject' }],
+        },
+        {
+            code: [
+                'interpolate(gettext("%(current)s of %(total)s"),',
+                '            {current: current},',
+                '            true);',
+            ].join('\n'),
+            errors: [{
+                data: { name: 'total' },
+                messageId: 'missingKey',
+            }],
+        },
+        {
+            code: [
+                "interpolate(ngettext('%(count)s file', '%(num)s files', n),",
+                '            {count: n},',
+                '            true);',
+            ].join('\n'),
+            errors: [{
+                data: { name: 'num' },
+                messageId: 'missingKey',
+            }],
+        },
+
+        /* Mixed placeholders. */
+        {
+            code: "interpolate(gettext('%s of %(total)s'), [a, b]);",
+            errors: [{ messageId: 'mixedPlaceholders' }],
+        },
+    ],
+
+    valid: [
+        "interpolate(gettext('%s of %s'), [current, total]);",
+        "interpolate('%s', [value]);",
+        "interpolate(gettext('100%% of %s'), [total]);",
+        "interpolate(gettext('%(count)s files'), {count: 1}, true);",
+        "interpolate(gettext('%(count)s files'), {'count': 1}, true);",
+        "interpolate(pgettext('files', '%(count)s files'), {count}, true);",
+
+        /* The singular form may leave out the count. */
+        "interpolate(ngettext('One file', '%s files', n), [n]);",
+
+        /* Arguments that can't be checked. */
+        'interpolate(format, [a]);',
+        'interpolate(gettext(label), [a]);',
+        "interpolate(gettext('%s of %s'), values);",
+        "interpolate(gettext('%s of %s'), [...values]);",
+        "interpolate(gettext('%(a)s %(b)s'), {...values}, true);",
+        "interpolate(gettext('%(a)s %(b)s'), {[key]: 1}, true);",
+
+        /* Local functions aren't checked. */
+        "function interpolate() {} interpolate('%s', []);",
+    ],
+});
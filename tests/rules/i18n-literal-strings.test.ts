@@ -0,0 +1,70 @@
+/*
+ * Unit tests for the i18n-literal-strings rule.
+ */
+
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/i18n-literal-strings';
+
+
+const ruleTester = new RuleTester();
+
+
+ruleTester.run('i18n-literal-strings', rule, {
+    invalid: [
+        {
+            code: 'gettext(label);',
+            errors: [{
+                data: { name: 'gettext' },
+                messageId: 'nonLiteral',
+            }],
+        },
+        {
+            code: "gettext('Save ' + 'changes');",
+            errors: [{ messageId: 'nonLiteral' }],
+        },
+        {
+            code: 'gettext(`Save ${thing}`);',
+            errors: [{ messageId: 'nonLiteral' }],
+        },
+        {
+            code: "ngettext(singular, '%s files', count);",
+            errors: [{
+                data: { name: 'ngettext' },
+                messageId: 'nonLiteral',
+            }],
+        },
+        {
+            code: "npgettext('files', one, many, count);",
+            errors: [
+                { messageId: 'nonLiteral' },
+                { messageId: 'nonLiteral' },
+            ],
+        },
+        {
+            code: "pgettext('verb', label);",
+            errors: [{ messageId: 'nonLiteral' }],
+        },
+        {
+            code: 'gettext_noop(label);',
+            errors: [{ messageId: 'nonLiteral' }],
+        },
+    ],
+
+    valid: [
+        "gettext('Save changes');",
+        'gettext(`Save changes`);',
+        "ngettext('%s file', '%s files', count);",
+        "npgettext('files', '%s file', '%s files', count);",
+        "pgettext('verb', 'Close');",
+        "gettext_noop('Save changes');",
+
+        /* The count and context aren't translated strings. */
+        "ngettext('%s file', '%s files', files.length);",
+
+        /* Local functions aren't checked. */
+        'function gettext(s) { return s; } gettext(label);',
+        'function f(gettext) { gettext(label); }',
+        'obj.gettext(label);',
+    ],
+});
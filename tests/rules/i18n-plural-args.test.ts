@@ -0,0 +1,60 @@
+/*
+ * Unit tests for the i18n-plural-args rule.
+ */
+
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/i18n-plural-args';
+
+
+const ruleTester = new RuleTester();
+
+
+ruleTester.run('i18n-plural-args', rule, {
+    invalid: [
+        {
+            code: "ngettext('%s file', count);",
+            errors: [{
+                data: {
+                    actual: '2',
+                    args: 'singular, plural, and count',
+                    name: 'ngettext',
+                    numArgs: '3',
+                },
+                messageId: 'wrongArgCount',
+            }],
+        },
+        {
+            code: "ngettext('%s file', '%s files');",
+            errors: [{ messageId: 'wrongArgCount' }],
+        },
+        {
+            code: "ngettext('%s file', '%s files', count, extra);",
+            errors: [{ messageId: 'wrongArgCount' }],
+        },
+        {
+            code: "npgettext('%s issue', '%s issues', count);",
+            errors: [{
+                data: {
+                    actual: '3',
+                    args: 'context, singular, plural, and count',
+                    name: 'npgettext',
+                    numArgs: '4',
+                },
+                messageId: 'wrongArgCount',
+            }],
+        },
+    ],
+
+    valid: [
+        "ngettext('%s file', '%s files', count);",
+        "npgettext('review', '%s issue', '%s issues', count);",
+        "gettext('Save');",
+
+        /* Spread arguments can't be counted. */
+        'ngettext(...args);',
+
+        /* Local functions aren't checked. */
+        "var ngettext = function() {}; ngettext('%s file');",
+    ],
+});
@@ -0,0 +1,261 @@
+/*
+ * Unit tests for the import-order rule.
+ */
+
+import * as typescriptParser from '@typescript-eslint/parser';
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/import-order';
+
+
+const ruleTester = new RuleTester();
+
+
+ruleTester.run('import-order', rule, {
+    invalid: [
+        /* Group order. */
+        {
+            code: [
+                "import { MyView } from './myView';",
+                "import { spina } from '@beanbag/spina';",
+                "import _ from 'underscore';",
+                "import * as fs from 'node:fs';",
+            ].join('\n'),
+            errors: [{
+                data: {
+                    prevSource: './myView',
+                    source: '@beanbag/spina',
+                },
+                messageId: 'outOfOrder',
+            }],
+            output: [
+                "import * as fs from 'node:fs';",
+                '',
+                "import _ from 'underscore';",
+                '',
+                "import { spina } from '@beanbag/spina';",
+                '',
+                "import { MyView } from './myView';",
+            ].join('\n'),
+        },
+        {
+            code: [
+                "import path from 'path';",
+                "import b from 'b';",
+                "import fs from 'fs';",
+                "import a from 'a';",
+            ].join('\n'),
+            errors: [{
+                data: {
+                    prevSource: 'b',
+                    source: 'fs',
+                },
+                messageId: 'outOfOrder',
+            }],
+            output: [
+                "import path from 'path';",
+                "import fs from 'fs';",
+                '',
+                "import b from 'b';",
+                "import a from 'a';",
+            ].join('\n'),
+        },
+
+        /* Comments move with their imports. */
+        {
+            code: [
+                "import a from 'a';",
+                '// About the relative import.',
+                "import b from './b'; // Trailing b.",
+                '// About fs.',
+                "import fs from 'fs';",
+            ].join('\n'),
+            errors: [{ messageId: 'outOfOrder' }],
+            output: [
+                '// About fs.',
+                "import fs from 'fs';",
+                '',
+                "import a from 'a';",
+                '',
+                '// About the relative import.',
+                "import b from './b'; // Trailing b.",
+            ].join('\n'),
+        },
+        {
+            code: [
+                "import b from './b';",
+                '',
+                '// Not attached.',
+                '',
+                "import a from 'a';",
+            ].join('\n'),
+            errors: [{ messageId: 'outOfOrder' }],
+            output: null,
+        },
+
+        /* Blank lines between groups. */
+        {
+            code: [
+                "import fs from 'fs';",
+                "import a from 'a'; // Trailing a.",
+                "import { spina } from '@beanbag/spina';",
+                '',
+                "import b from './b';",
+            ].join('\n'),
+            errors: [
+                {
+                    data: { source: 'a' },
+                    messageId: 'missingBlankLine',
+                },
+                {
+                    data: { source: '@beanbag/spina' },
+                    messageId: 'missingBlankLine',
+                },
+            ],
+            output: [
+                "import fs from 'fs';",
+                '',
+                "import a from 'a'; // Trailing a.",
+                '',
+                "import { spina } from '@beanbag/spina';",
+                '',
+                "import b from './b';",
+            ].join('\n'),
+        },
+
+        /* Specifiers. */
+        {
+            code: "import { b, a as c, C } from 'a';",
+            errors: [{
+                data: {
+                    name: 'C',
+                    prevName: 'b',
+                },
+                messageId: 'unsortedSpecifiers',
+            }],
+            output: "import { C, a as c, b } from 'a';",
+        },
+        {
+            code: [
+                'import def, {',
+                '    b,',
+                '    a,',
+                "} from 'a';",
+            ].join('\n'),
+            errors: [{ messageId: 'unsortedSpecifiers' }],
+            output: [
+                'import def, {',
+                '    a,',
+                '    b,',
+                "} from 'a';",
+            ].join('\n'),
+        },
+        {
+            code: "import { b, /* a */ a } from 'a';",
+            errors: [{ messageId: 'unsortedSpecifiers' }],
+            output: null,
+        },
+        {
+            code: "import { type B, A } from 'a';",
+            errors: [{ messageId: 'unsortedSpecifiers' }],
+            languageOptions: {
+                parser: typescriptParser,
+            },
+            output: "import { A, type B } from 'a';",
+        },
+
+        /* Custom groups. */
+        {
+            code: [
+                "import { RB } from '@reviewboard/common';",
+                '',
+                "import { spina } from '@beanbag/spina';",
+            ].join('\n'),
+            errors: [{ messageId: 'outOfOrder' }],
+            options: [{
+                groups: [
+                    'builtin',
+                    'external',
+                    '@beanbag/*',
+                    '@reviewboard/*',
+                    'relative',
+                ],
+            }],
+            output: [
+                "import { spina } from '@beanbag/spina';",
+                '',
+                "import { RB } from '@reviewboard/common';",
+            ].join('\n'),
+        },
+        {
+            code: [
+                "import { RB } from '@reviewboard/common';",
+                "import { spina } from '@beanbag/spina';",
+            ].join('\n'),
+            errors: [{ messageId: 'missingBlankLine' }],
+            options: [{
+                groups: [
+                    'external',
+                    '@reviewboard/*',
+                    '@beanbag/*',
+                ],
+            }],
+            output: [
+                "import { RB } from '@reviewboard/common';",
+                '',
+                "import { spina } from '@beanbag/spina';",
+            ].join('\n'),
+        },
+    ],
+
+    valid: [
+        [
+            "import * as fs from 'node:fs';",
+            "import path from 'path';",
+            '',
+            "import _ from 'underscore';",
+            "import { Foo, bar } from 'some-package';",
+            '',
+            "import { spina } from '@beanbag/spina';",
+            "import { ink } from '@beanbag/ink/lib';",
+            '',
+            "import { MyView } from './myView';",
+            "import { b } from '../b';",
+        ].join('\n'),
+
+        /* Comments and blank lines within groups are allowed. */
+        [
+            "import a from 'a';",
+            '',
+            '/* About b. */',
+            "import b from 'b';",
+        ].join('\n'),
+
+        /* Only consecutive imports are compared. */
+        [
+            "import b from './b';",
+            'const x = 1;',
+            "import a from 'a';",
+        ].join('\n'),
+
+        /* Grouped patterns. */
+        {
+            code: [
+                "import { spina } from '@beanbag/spina';",
+                "import { RB } from '@reviewboard/common';",
+            ].join('\n'),
+            options: [{
+                groups: [
+                    'builtin',
+                    'external',
+                    ['@beanbag/*', '@reviewboard/*'],
+                    'relative',
+                ],
+            }],
+        },
+
+        /* Specifiers. */
+        "import def, { A, B, a } from 'a';",
+        "import * as a from 'a';",
+    ],
+});
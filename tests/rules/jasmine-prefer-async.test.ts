@@ -0,0 +1,202 @@
+/*
+ * Unit tests for the jasmine-prefer-async rule.
+ */
+
+import * as typescriptParser from '@typescript-eslint/parser';
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/jasmine-prefer-async';
+
+
+const ruleTester = new RuleTester();
+const filename = 'static/js/tests/FooViewTests.es6.js';
+
+
+ruleTester.run('jasmine-prefer-async', rule, {
+    invalid: [
+        /* Callbacks at the end of a promise chain. */
+        {
+            code: [
+                "it('Saves', function(done) {",
+                '    model.set(attrs);',
+                '',
+                '    model.save()',
+                '        .then(() => expect(model.isNew()).toBeFalse())',
+                '        .then(done);',
+                '});',
+            ].join('\n'),
+            errors: [{
+                column: 22,
+                data: {
+                    name: 'done',
+                },
+                line: 1,
+                messageId: 'preferAsync',
+            }],
+            filename,
+            output: [
+                "it('Saves', async function() {",
+                '    model.set(attrs);',
+                '',
+                '    await model.save()',
+                '        .then(() => expect(model.isNew()).toBeFalse());',
+                '});',
+            ].join('\n'),
+        },
+        {
+            code: [
+                'beforeEach(done => {',
+                '    view.render().then(() => done(), done.fail);',
+                '});',
+                '',
+                'afterEach((done) => {',
+                '    view.remove().then(function() {',
+                '        done();',
+                '    });',
+                '});',
+            ].join('\n'),
+            errors: [
+                {
+                    line: 1,
+                    messageId: 'preferAsync',
+                },
+                {
+                    line: 5,
+                    messageId: 'preferAsync',
+                },
+            ],
+            filename,
+            output: [
+                'beforeEach(async () => {',
+                '    await view.render();',
+                '});',
+                '',
+                'afterEach(async () => {',
+                '    await view.remove();',
+                '});',
+            ].join('\n'),
+        },
+
+        /* Callbacks that can't be converted automatically. */
+        {
+            code: [
+                "it('Saves', function(done) {",
+                '    model.save({',
+                '        success: () => done(),',
+                '    });',
+                '});',
+                '',
+                "it('Loads', function(cb) {",
+                '    if (isReady) {',
+                '        cb();',
+                '    }',
+                '',
+                '    model.ready().then(cb);',
+                '});',
+                '',
+                "it('Fetches', done => model.fetch().then(done));",
+                '',
+                "it('Renders', function(done) {",
+                '    view.render()',
+                '        // Wait for rendering.',
+                '        .then(done);',
+                '});',
+                '',
+                "it('Removes', function(done) {",
+                '    view.remove().then(done.fail);',
+                '});',
+            ].join('\n'),
+            errors: [
+                {
+                    line: 1,
+                    messageId: 'preferAsync',
+                },
+                {
+                    data: {
+                        name: 'cb',
+                    },
+                    line: 7,
+                    messageId: 'preferAsync',
+                },
+                {
+                    line: 15,
+                    messageId: 'preferAsync',
+                },
+                {
+                    line: 17,
+                    messageId: 'preferAsync',
+                },
+                {
+                    line: 23,
+                    messageId: 'preferAsync',
+                },
+            ],
+            filename,
+            output: null,
+        },
+
+        /* TypeScript. */
+        {
+            code: [
+                "fit('Saves', function(done: DoneFn) {",
+                '    (model.save() as Promise<void>).then(done);',
+                '});',
+            ].join('\n'),
+            errors: [{
+                messageId: 'preferAsync',
+            }],
+            filename: 'static/js/tests/FooViewTests.ts',
+            languageOptions: {
+                parser: typescriptParser,
+            },
+            output: [
+                "fit('Saves', async function() {",
+                '    await (model.save() as Promise<void>);',
+                '});',
+            ].join('\n'),
+        },
+    ],
+
+    valid: [
+        {
+            code: [
+                "it('Saves', async function() {",
+                '    await model.save();',
+                '});',
+                '',
+                'beforeEach(() => {',
+                '    view = new FooView();',
+                '});',
+                '',
+                "it('Renders', () => expect(view.render()).toBe(view));",
+            ].join('\n'),
+            filename,
+        },
+
+        /* Functions taking more than the done callback. */
+        {
+            code: [
+                "it('Saves', function(model, done) {",
+                '    model.save().then(done);',
+                '});',
+            ].join('\n'),
+            filename,
+        },
+
+        /* Other functions taking callbacks. */
+        {
+            code: 'model.save().then(function(done) { done(); });',
+            filename,
+        },
+
+        /* ES5 test files. */
+        {
+            code: [
+                "it('Saves', function(done) {",
+                '    model.save().then(done);',
+                '});',
+            ].join('\n'),
+            filename: 'static/js/tests/FooViewTests.js',
+        },
+    ],
+});
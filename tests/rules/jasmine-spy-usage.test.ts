@@ -0,0 +1,263 @@
+/*
+ * Unit tests for the jasmine-spy-usage rule.
+ */
+
+import * as typescriptParser from '@typescript-eslint/parser';
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/jasmine-spy-usage';
+
+
+const ruleTester = new RuleTester();
+
+
+ruleTester.run('jasmine-spy-usage', rule, {
+    invalid: [
+        /* Spy matchers on values that aren't spies. */
+        {
+            code: [
+                "suite('rb/views/FooView', function() {",
+                '    beforeEach(function() {',
+                "        spyOn(view, 'render');",
+                '    });',
+                '',
+                "    it('Updates', function() {",
+                '        view.update();',
+                '',
+                '        expect(view.render).toHaveBeenCalled();',
+                '        expect(view.save).not.toHaveBeenCalledWith(1);',
+                '        expect(this.model.save).toHaveBeenCalledTimes(1);',
+                '    });',
+                '});',
+            ].join('\n'),
+            errors: [
+                {
+                    data: {
+                        matcher: 'toHaveBeenCalledWith',
+                        name: 'view.save',
+                    },
+                    line: 10,
+                    messageId: 'notASpy',
+                },
+                {
+                    data: {
+                        matcher: 'toHaveBeenCalledTimes',
+                        name: 'this.model.save',
+                    },
+                    line: 11,
+                    messageId: 'notASpy',
+                },
+            ],
+        },
+
+        /* Spies from other specs and suites. */
+        {
+            code: [
+                "suite('rb/views/FooView', function() {",
+                "    describe('Rendering', function() {",
+                '        beforeEach(function() {',
+                "            spyOn(view, 'render');",
+                '        });',
+                '',
+                "        it('Default', function() {",
+                "            spyOn(view, 'save');",
+                '        });',
+                '    });',
+                '',
+                "    describe('Saving', function() {",
+                "        it('Default', function() {",
+                '            expect(view.save).toHaveBeenCalled();',
+                '            expect(view.render).toHaveBeenCalled();',
+                '        });',
+                '    });',
+                '});',
+            ].join('\n'),
+            errors: [
+                {
+                    line: 14,
+                    messageId: 'notASpy',
+                },
+                {
+                    line: 15,
+                    messageId: 'notASpy',
+                },
+            ],
+        },
+
+        /* Spies created after the matcher. */
+        {
+            code: [
+                "it('Saves', function() {",
+                '    expect(model.save).toHaveBeenCalled();',
+                "    spyOn(model, 'save');",
+                '});',
+            ].join('\n'),
+            errors: [
+                {
+                    line: 2,
+                    messageId: 'notASpy',
+                },
+                {
+                    line: 3,
+                    messageId: 'configAfterExpect',
+                },
+            ],
+        },
+
+        /* Spy configuration after the first expect(). */
+        {
+            code: [
+                "it('Saves', function() {",
+                "    const spy = spyOn(model, 'save');",
+                '    view.save();',
+                '',
+                '    expect(spy).toHaveBeenCalled();',
+                '',
+                '    spy.and.returnValue(false);',
+                "    spyOn(model, 'validate').and.callFake(() => false);",
+                '    view.save();',
+                '',
+                '    expect(spy.calls.count()).toBe(1);',
+                '});',
+            ].join('\n'),
+            errors: [
+                {
+                    line: 7,
+                    messageId: 'configAfterExpect',
+                },
+                {
+                    line: 8,
+                    messageId: 'configAfterExpect',
+                },
+            ],
+        },
+
+        /* TypeScript. */
+        {
+            code: [
+                "it('Saves', () => {",
+                "    spyOn(model, 'save');",
+                '',
+                '    expect(model.save as jasmine.Spy).toHaveBeenCalled();',
+                '    expect(model.fetch!).toHaveBeenCalled();',
+                '});',
+            ].join('\n'),
+            errors: [{
+                data: {
+                    matcher: 'toHaveBeenCalled',
+                    name: 'model.fetch',
+                },
+                line: 5,
+                messageId: 'notASpy',
+            }],
+            languageOptions: {
+                parser: typescriptParser,
+            },
+        },
+    ],
+
+    valid: [
+        {
+            code: [
+                "suite('rb/views/FooView', function() {",
+                '    const callback = jasmine.createSpy();',
+                '    let options;',
+                '    let api;',
+                '',
+                '    beforeEach(function() {',
+                "        spyOn(view, 'render').and.callThrough();",
+                "        spyOn(RB.BaseView.prototype, 'remove');",
+                '        options = {',
+                "            onDone: jasmine.createSpy('onDone'),",
+                '        };',
+                "        api = jasmine.createSpyObj('api', ['get', 'post']);",
+                '    });',
+                '',
+                "    describe('Rendering', function() {",
+                '        let saveSpy;',
+                '',
+                '        beforeEach(function() {',
+                "            saveSpy = spyOn(model, 'save')",
+                '                .and.resolveTo();',
+                '            spyOnAllFunctions(this.router);',
+                '        });',
+                '',
+                "        it('Default', function() {",
+                '            const onError = jasmine.createSpy()',
+                '                .and.returnValue(false);',
+                '',
+                '            view.update();',
+                '',
+                '            expect(view.render).toHaveBeenCalled();',
+                '            expect(view.remove).toHaveBeenCalled();',
+                '            expect(callback).not.toHaveBeenCalled();',
+                '            expect(options.onDone).toHaveBeenCalled();',
+                "            expect(api.get).toHaveBeenCalledWith('/');",
+                '            expect(saveSpy).toHaveBeenCalled();',
+                '            expect(model.save).toHaveBeenCalled();',
+                '            expect(this.router.navigate).toHaveBeenCalled();',
+                '            expect(onError).toHaveBeenCalledTimes(0);',
+                '        });',
+                '    });',
+                '});',
+            ].join('\n'),
+        },
+
+        /* Spies that can't be tracked. */
+        {
+            code: [
+                "it('Saves', function() {",
+                '    const view = new FooView({',
+                '        onSave: jasmine.createSpy(),',
+                '    });',
+                '',
+                '    expect(view.options.onSave).toHaveBeenCalled();',
+                '});',
+            ].join('\n'),
+        },
+        {
+            code: [
+                'function expectCalled(spy) {',
+                '    expect(spy).toHaveBeenCalled();',
+                '}',
+                '',
+                "it('Saves', function() {",
+                '    expect(getSpy()).toHaveBeenCalled();',
+                '});',
+            ].join('\n'),
+        },
+
+        /* Spies created in helper functions outside the suite. */
+        {
+            code: [
+                'function setUpSpies() {',
+                "    spyOn(view, 'render');",
+                '}',
+                '',
+                "it('Renders', function() {",
+                '    setUpSpies();',
+                '',
+                '    expect(view.render).toHaveBeenCalled();',
+                '});',
+            ].join('\n'),
+        },
+
+        /* Spy configuration before expect() and outside specs. */
+        {
+            code: [
+                'beforeEach(function() {',
+                '    expect(view).toBeDefined();',
+                "    spyOn(view, 'render').and.returnValue(view);",
+                '});',
+                '',
+                "it('Saves', function() {",
+                "    spyOn(model, 'save').and.resolveTo();",
+                "    spyOnProperty(model, 'isNew').and.returnValue(false);",
+                '',
+                '    expect(model.save()).toBeTruthy();',
+                '    expect(view.render).toHaveBeenCalled();',
+                '});',
+            ].join('\n'),
+        },
+    ],
+});
@@ -0,0 +1,223 @@
+/*
+ * Unit tests for the jasmine-suite-structure rule.
+ */
+
+import * as typescriptParser from '@typescript-eslint/parser';
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/jasmine-suite-structure';
+
+
+const ruleTester = new RuleTester();
+
+
+ruleTester.run('jasmine-suite-structure', rule, {
+    invalid: [
+        /* Missing suites. */
+        {
+            code: [
+                "describe('Rendering', function() {",
+                "    it('Default', function() {});",
+                '});',
+            ].join('\n'),
+            errors: [
+                {
+                    data: {
+                        name: 'describe',
+                    },
+                    line: 1,
+                    messageId: 'describeOutsideSuite',
+                },
+                {
+                    column: 1,
+                    line: 1,
+                    messageId: 'missingSuite',
+                },
+            ],
+            filename: 'rb/js/views/tests/FooViewTests.es6.js',
+        },
+
+        /* Multiple and nested suites. */
+        {
+            code: [
+                "suite('rb/views/FooView', function() {",
+                "    suite('rb/views/FooView/Rendering', function() {});",
+                '});',
+                '',
+                "suite('rb/views/BarView', function() {});",
+            ].join('\n'),
+            errors: [
+                {
+                    line: 2,
+                    messageId: 'nestedSuite',
+                },
+                {
+                    line: 5,
+                    messageId: 'multipleSuites',
+                },
+            ],
+            filename: 'rb/js/views/tests/FooViewTests.es6.js',
+        },
+
+        /* describe() outside the suite. */
+        {
+            code: [
+                "suite('rb/views/FooView', function() {",
+                "    describe('Rendering', function() {});",
+                '});',
+                '',
+                "fdescribe('Events', function() {",
+                "    describe('Click', function() {});",
+                '});',
+            ].join('\n'),
+            errors: [
+                {
+                    data: {
+                        name: 'fdescribe',
+                    },
+                    line: 5,
+                    messageId: 'describeOutsideSuite',
+                },
+                {
+                    data: {
+                        name: 'describe',
+                    },
+                    line: 6,
+                    messageId: 'describeOutsideSuite',
+                },
+            ],
+            filename: 'rb/js/views/tests/FooViewTests.es6.js',
+        },
+
+        /* Suite names not matching the path. */
+        {
+            code: "suite('rb/views/BarView', function() {});",
+            errors: [{
+                data: {
+                    expected: 'rb/views/FooView',
+                    name: 'rb/views/BarView',
+                },
+                messageId: 'wrongSuiteName',
+                suggestions: [{
+                    data: {
+                        expected: 'rb/views/FooView',
+                    },
+                    messageId: 'renameSuite',
+                    output: "suite('rb/views/FooView', function() {});",
+                }],
+            }],
+            filename: 'reviewboard/static/rb/js/views/tests/' +
+                      'FooViewTests.es6.js',
+        },
+        {
+            code: 'suite("FooView", function() {});',
+            errors: [{
+                data: {
+                    expected: 'djblets/forms/views/FooView',
+                    name: 'FooView',
+                },
+                messageId: 'wrongSuiteName',
+                suggestions: [{
+                    messageId: 'renameSuite',
+                    output:
+                        'suite("djblets/forms/views/FooView", function() {});',
+                }],
+            }],
+            filename: 'djblets/static/djblets/js/forms/views/tests/' +
+                      'FooViewTests.js',
+        },
+
+        /* Custom roots. */
+        {
+            code: "suite('rb/views/FooView', () => {});",
+            errors: [{
+                data: {
+                    expected: 'myext/views/FooView',
+                    name: 'rb/views/FooView',
+                },
+                messageId: 'wrongSuiteName',
+                suggestions: [{
+                    messageId: 'renameSuite',
+                    output: "suite('myext/views/FooView', () => {});",
+                }],
+            }],
+            filename: 'myext/static/js/views/FooViewTests.ts',
+            languageOptions: {
+                parser: typescriptParser,
+            },
+            options: [{
+                roots: {
+                    'myext/static/js': 'myext/',
+                },
+            }],
+        },
+    ],
+
+    valid: [
+        {
+            code: [
+                "suite('rb/views/FooView', function() {",
+                '    let view;',
+                '',
+                '    beforeEach(function() {',
+                '        view = new RB.FooView();',
+                '    });',
+                '',
+                "    describe('Rendering', function() {",
+                "        describe('Buttons', function() {",
+                "            it('Default', function() {});",
+                '        });',
+                '    });',
+                '});',
+            ].join('\n'),
+            filename: 'reviewboard/static/rb/js/views/tests/' +
+                      'FooViewTests.es6.js',
+        },
+        {
+            code: [
+                "suite('rb/resources/models/BaseResource', () => {",
+                "    describe('Saving', () => {});",
+                '});',
+            ].join('\n'),
+            filename: 'rb/js/resources/models/tests/BaseResourceTests.ts',
+            languageOptions: {
+                parser: typescriptParser,
+            },
+        },
+
+        /* Custom test file patterns. */
+        {
+            code: "suite('rb/views/FooView', function() {});",
+            filename: 'rb/js/views/tests/FooView.test.js',
+            options: [{
+                files: ['**/*.test.{js,ts}'],
+            }],
+        },
+        {
+            code: "suite('rb/views/FooView', function() {});",
+            filename: 'rb/js/views/FooViewSpec.es6.js',
+            options: [{
+                files: ['**/*.test.js', 'rb/**/*Spec.es6.js'],
+            }],
+        },
+
+        /* Files outside the configured roots. */
+        {
+            code: "suite('FooView', function() {});",
+            filename: 'static/js/tests/FooViewTests.js',
+        },
+
+        /* Files that aren't test files. */
+        {
+            code: "describe('Rendering', function() {});",
+            filename: 'rb/js/views/FooView.js',
+        },
+        {
+            code: "describe('Rendering', function() {});",
+            filename: 'rb/js/views/tests/FooViewTests.js',
+            options: [{
+                files: ['**/*.spec.js'],
+            }],
+        },
+    ],
+});
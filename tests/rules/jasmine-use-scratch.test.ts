@@ -0,0 +1,185 @@
+/*
+ * Unit tests for the jasmine-use-scratch rule.
+ */
+
+import * as typescriptParser from '@typescript-eslint/parser';
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/jasmine-use-scratch';
+
+
+const ruleTester = new RuleTester();
+
+
+ruleTester.run('jasmine-use-scratch', rule, {
+    invalid: [
+        /* Adding content to a jQuery body. */
+        {
+            code: [
+                "$('body').append(view.$el);",
+                'jQuery(document.body).prepend(view.el);',
+                "$('body').html('<div></div>');",
+            ].join('\n'),
+            errors: [
+                {
+                    column: 1,
+                    endColumn: 10,
+                    line: 1,
+                    messageId: 'useScratch',
+                    suggestions: [{
+                        data: {
+                            replacement: '$testsScratch',
+                        },
+                        messageId: 'useScratchInstead',
+                        output: [
+                            '$testsScratch.append(view.$el);',
+                            'jQuery(document.body).prepend(view.el);',
+                            "$('body').html('<div></div>');",
+                        ].join('\n'),
+                    }],
+                },
+                {
+                    line: 2,
+                    messageId: 'useScratch',
+                    suggestions: [{
+                        messageId: 'useScratchInstead',
+                        output: [
+                            "$('body').append(view.$el);",
+                            '$testsScratch.prepend(view.el);',
+                            "$('body').html('<div></div>');",
+                        ].join('\n'),
+                    }],
+                },
+                {
+                    line: 3,
+                    messageId: 'useScratch',
+                    suggestions: [{
+                        messageId: 'useScratchInstead',
+                        output: [
+                            "$('body').append(view.$el);",
+                            'jQuery(document.body).prepend(view.el);',
+                            "$testsScratch.html('<div></div>');",
+                        ].join('\n'),
+                    }],
+                },
+            ],
+        },
+
+        /* Adding content to document.body. */
+        {
+            code: 'document.body.appendChild(view.el);',
+            errors: [{
+                messageId: 'useScratch',
+                suggestions: [{
+                    data: {
+                        replacement: '$testsScratch[0]',
+                    },
+                    messageId: 'useScratchInstead',
+                    output: '$testsScratch[0].appendChild(view.el);',
+                }],
+            }],
+        },
+        {
+            code: "document.body.innerHTML = '<div></div>';",
+            errors: [{
+                messageId: 'useScratch',
+                suggestions: [{
+                    messageId: 'useScratchInstead',
+                    output: "$testsScratch[0].innerHTML = '<div></div>';",
+                }],
+            }],
+        },
+
+        /* Appending elements to the body. */
+        {
+            code: [
+                "view.$el.appendTo('body');",
+                'view.$el.prependTo(document.body);',
+                "$('<div>').appendTo($('body'));",
+            ].join('\n'),
+            errors: [
+                {
+                    column: 19,
+                    line: 1,
+                    messageId: 'useScratch',
+                    suggestions: [{
+                        messageId: 'useScratchInstead',
+                        output: [
+                            'view.$el.appendTo($testsScratch);',
+                            'view.$el.prependTo(document.body);',
+                            "$('<div>').appendTo($('body'));",
+                        ].join('\n'),
+                    }],
+                },
+                {
+                    line: 2,
+                    messageId: 'useScratch',
+                    suggestions: [{
+                        messageId: 'useScratchInstead',
+                        output: [
+                            "view.$el.appendTo('body');",
+                            'view.$el.prependTo($testsScratch);',
+                            "$('<div>').appendTo($('body'));",
+                        ].join('\n'),
+                    }],
+                },
+                {
+                    line: 3,
+                    messageId: 'useScratch',
+                    suggestions: [{
+                        messageId: 'useScratchInstead',
+                        output: [
+                            "view.$el.appendTo('body');",
+                            'view.$el.prependTo(document.body);',
+                            "$('<div>').appendTo($testsScratch);",
+                        ].join('\n'),
+                    }],
+                },
+            ],
+        },
+
+        /* TypeScript. */
+        {
+            code: 'document.body.append(view.el as HTMLElement);',
+            errors: [{
+                messageId: 'useScratch',
+                suggestions: [{
+                    messageId: 'useScratchInstead',
+                    output: '$testsScratch[0].append(view.el as HTMLElement);',
+                }],
+            }],
+            languageOptions: {
+                parser: typescriptParser,
+            },
+        },
+    ],
+
+    valid: [
+        {
+            code: [
+                '$testsScratch.append(view.$el);',
+                'view.$el.appendTo($testsScratch);',
+                '$testsScratch[0].appendChild(view.el);',
+            ].join('\n'),
+        },
+
+        /* Reading from the body. */
+        {
+            code: [
+                "const html = $('body').html();",
+                "const $dialog = $('body').find('.dialog');",
+                'const width = document.body.clientWidth;',
+                "document.body.addEventListener('click', onClick);",
+            ].join('\n'),
+        },
+
+        /* Other elements. */
+        {
+            code: [
+                "$('.container').append(view.$el);",
+                'view.$el.appendTo(this.$body);',
+                "view.el.innerHTML = '<div></div>';",
+            ].join('\n'),
+        },
+    ],
+});
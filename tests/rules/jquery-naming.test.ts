@@ -0,0 +1,254 @@
+/*
+ * Unit tests for the jquery-naming rule.
+ */
+
+import * as typescriptParser from '@typescript-eslint/parser';
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/jquery-naming';
+
+
+const ruleTester = new RuleTester();
+
+
+ruleTester.run('jquery-naming', rule, {
+    invalid: [
+        /* Missing prefixes. */
+        {
+            code: [
+                "const button = $('.save-button');",
+                "let items = jQuery('li');",
+                "this.dialog = this.$('.dialog');",
+            ].join('\n'),
+            errors: [
+                {
+                    data: {
+                        expected: '$button',
+                        name: 'button',
+                    },
+                    line: 1,
+                    messageId: 'missingPrefix',
+                },
+                {
+                    data: {
+                        expected: '$items',
+                        name: 'items',
+                    },
+                    line: 2,
+                    messageId: 'missingPrefix',
+                },
+                {
+                    data: {
+                        expected: '$dialog',
+                        name: 'dialog',
+                    },
+                    line: 3,
+                    messageId: 'missingPrefix',
+                },
+            ],
+        },
+        {
+            code: [
+                "this._items = this.$el.find('ul').children('li');",
+                "const rows = $table.find('tr');",
+            ].join('\n'),
+            errors: [
+                {
+                    data: {
+                        expected: '_$items',
+                        name: '_items',
+                    },
+                    messageId: 'missingPrefix',
+                },
+                {
+                    data: {
+                        expected: '$rows',
+                        name: 'rows',
+                    },
+                    messageId: 'missingPrefix',
+                },
+            ],
+        },
+
+        /* Object literal properties. */
+        {
+            code: [
+                'const MyView = Backbone.View.extend({',
+                "    button: $('.save-button'),",
+                '    initialize() {',
+                '        this.render({',
+                "            rows: this.$el.find('tr'),",
+                "            $items: this.$('li'),",
+                '        });',
+                '    },',
+                '});',
+            ].join('\n'),
+            errors: [
+                {
+                    data: {
+                        expected: '$button',
+                        name: 'button',
+                    },
+                    line: 2,
+                    messageId: 'missingPrefix',
+                },
+                {
+                    data: {
+                        expected: '$rows',
+                        name: 'rows',
+                    },
+                    line: 5,
+                    messageId: 'missingPrefix',
+                },
+            ],
+        },
+
+        /* Unexpected prefixes. */
+        {
+            code: [
+                "const $name = 'foo';",
+                'this._$count = 3;',
+                'let $items = [];',
+                'const $label = `${prefix}: ${name}`;',
+                'const $visible = !hidden;',
+            ].join('\n'),
+            errors: [
+                {
+                    data: {
+                        name: '$name',
+                    },
+                    messageId: 'unexpectedPrefix',
+                },
+                {
+                    data: {
+                        name: '_$count',
+                    },
+                    messageId: 'unexpectedPrefix',
+                },
+                {
+                    data: {
+                        name: '$items',
+                    },
+                    messageId: 'unexpectedPrefix',
+                },
+                {
+                    data: {
+                        name: '$label',
+                    },
+                    messageId: 'unexpectedPrefix',
+                },
+                {
+                    data: {
+                        name: '$visible',
+                    },
+                    messageId: 'unexpectedPrefix',
+                },
+            ],
+        },
+
+        /* Custom methods. */
+        {
+            code: "const tooltip = $el.tooltip('show');",
+            errors: [{
+                data: {
+                    expected: '$tooltip',
+                    name: 'tooltip',
+                },
+                messageId: 'missingPrefix',
+            }],
+            options: [{
+                methods: ['tooltip'],
+            }],
+        },
+
+        /* TypeScript. */
+        {
+            code: [
+                'class MyView {',
+                "    private dialog = $('<div>');",
+                "    private $title: string = 'Title';",
+                '}',
+            ].join('\n'),
+            errors: [
+                {
+                    data: {
+                        expected: '$dialog',
+                        name: 'dialog',
+                    },
+                    line: 2,
+                    messageId: 'missingPrefix',
+                },
+                {
+                    data: {
+                        name: '$title',
+                    },
+                    line: 3,
+                    messageId: 'unexpectedPrefix',
+                },
+            ],
+            languageOptions: {
+                parser: typescriptParser,
+            },
+        },
+    ],
+
+    valid: [
+        {
+            code: [
+                "const $button = $('.save-button');",
+                "this._$items = this.$el.find('ul').children('li');",
+                'let $dialog = null;',
+                '$dialog = undefined;',
+                "const $rows = $table.find('tr').not('.header');",
+            ].join('\n'),
+        },
+
+        /* Values that aren't jQuery objects. */
+        {
+            code: [
+                'const name = $input.val();',
+                "const width = $el.css('width');",
+                "const el = $el.find('a')[0];",
+                "const results = $.find('a');",
+                "const count = this.$('li').length;",
+                "this.el = document.getElementById('foo');",
+            ].join('\n'),
+        },
+
+        /* Values that may be jQuery objects. */
+        {
+            code: [
+                'const $el = this.getElement();',
+                'this.$container = options.$container;',
+                'const $target = $(evt.target) || $default;',
+            ].join('\n'),
+        },
+
+        /* Non-jQuery methods with the default configuration. */
+        {
+            code: "const tooltip = $el.tooltip('show');",
+        },
+
+        /* Destructuring and computed names. */
+        {
+            code: [
+                "const { el } = $('.foo');",
+                "this[name] = $('.foo');",
+                "const attrs = { [name]: $('.foo') };",
+            ].join('\n'),
+        },
+
+        /* Object literal properties that aren't jQuery objects. */
+        {
+            code: [
+                'Backbone.View.extend({',
+                "    events: { 'click .btn': '_onClick' },",
+                '    $el: options.el,',
+                '    $template: null,',
+                '    title: $input.val(),',
+                "    'button': $('.save-button'),",
+                '});',
+            ].join('\n'),
+        },
+    ],
+});
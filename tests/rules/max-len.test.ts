@@ -0,0 +1,162 @@
+/*
+ * Unit tests for the max-len rule.
+ */
+
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/max-len';
+
+
+const ruleTester = new RuleTester();
+const shortOptions = [{ code: 20 }];
+
+
+ruleTester.run('max-len', rule, {
+    invalid: [
+        {
+            code: 'var abcdefghijklmnop = 1;',
+            errors: [{
+                column: 1,
+                data: {
+                    length: '25',
+                    max: '20',
+                },
+                line: 1,
+                messageId: 'max',
+            }],
+            options: shortOptions,
+        },
+        {
+            code: `var s = '${'x'.repeat(80)}';`,
+            errors: [{
+                data: {
+                    length: '91',
+                    max: '79',
+                },
+                messageId: 'max',
+            }],
+        },
+
+        /* Code around translatable strings still counts. */
+        {
+            code: 'someFunction(argument1, argument2, gettext("Hi"));',
+            errors: [{
+                data: {
+                    length: '46',
+                    max: '20',
+                },
+                messageId: 'max',
+            }],
+            options: shortOptions,
+        },
+
+        /* Code in template literal substitutions still counts. */
+        {
+            code: 'interpolate(`a ${someVeryLongExpressionName.property}`);',
+            errors: [{
+                data: {
+                    length: '49',
+                    max: '20',
+                },
+                messageId: 'max',
+            }],
+            options: shortOptions,
+        },
+
+        /* Lines with gettext calls with non-literal strings. */
+        {
+            code: "var abcdefgh = gettext(label + 'abc');",
+            errors: [{ messageId: 'max' }],
+            options: shortOptions,
+        },
+
+        /* Only the configured functions are exempt. */
+        {
+            code: "f('A long string');",
+            errors: [{ messageId: 'max' }],
+            options: [{ code: 10 }],
+        },
+        {
+            code: "gettext('A long string');",
+            errors: [{ messageId: 'max' }],
+            options: [{
+                code: 10,
+                functions: ['f'],
+            }],
+        },
+
+        /* Local functions aren't exempt. */
+        {
+            code: [
+                'function gettext(s) {}',
+                "gettext('A long string');",
+            ].join('\n'),
+            errors: [{
+                line: 2,
+                messageId: 'max',
+            }],
+            options: [{ code: 22 }],
+        },
+
+        /* URLs can be checked. */
+        {
+            code: '// https://example.com/a/long/path',
+            errors: [{ messageId: 'max' }],
+            options: [{
+                code: 20,
+                ignoreUrls: false,
+            }],
+        },
+    ],
+
+    valid: [
+        'var a = 1;',
+        {
+            code: 'var abc = 1;',
+            options: shortOptions,
+        },
+
+        /* Translatable strings are exempt. */
+        {
+            code: "var s = gettext('A long string that goes past the limit');",
+            options: shortOptions,
+        },
+        {
+            code: [
+                'var o = {',
+                "    a: ngettext('A long singular string', 'Plural', n),",
+                '};',
+            ].join('\n'),
+            options: [{ code: 25 }],
+        },
+        {
+            code: "pgettext('a long context', 'A long string');",
+            options: shortOptions,
+        },
+        {
+            code: "interpolate('%s and a long format string', [a]);",
+            options: shortOptions,
+        },
+        {
+            code: 'gettext_noop(`A long template literal string`);',
+            options: shortOptions,
+        },
+        {
+            code: [
+                'gettext(`A long template literal',
+                'that spans multiple long lines`);',
+            ].join('\n'),
+            options: shortOptions,
+        },
+        {
+            code: 'gettext(`A long template ${n} string`);',
+            options: shortOptions,
+        },
+
+        /* URLs are exempt by default. */
+        {
+            code: '// https://example.com/a/long/path',
+            options: shortOptions,
+        },
+    ],
+});
@@ -0,0 +1,156 @@
+/*
+ * Unit tests for the module-header rule.
+ */
+
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/module-header';
+
+
+const ruleTester = new RuleTester();
+const header = [
+    '/*',
+    ' * A module.',
+    ' */',
+    '',
+];
+
+
+ruleTester.run('module-header', rule, {
+    invalid: [
+        {
+            code: [
+                "'use strict';",
+                '',
+                "import a from 'a';",
+            ].join('\n'),
+            errors: [{
+                column: 1,
+                line: 1,
+                messageId: 'missingHeader',
+            }],
+        },
+        {
+            code: [
+                '// A module.',
+                "import a from 'a';",
+            ].join('\n'),
+            errors: [{ messageId: 'missingHeader' }],
+        },
+        {
+            code: [
+                '/* A module. */',
+                "import a from 'a';",
+            ].join('\n'),
+            errors: [{ messageId: 'missingHeader' }],
+            filename: 'foo.js',
+        },
+        {
+            code: [
+                "import a from 'a';",
+                '',
+                '/*',
+                ' * Too late.',
+                ' */',
+            ].join('\n'),
+            errors: [{ messageId: 'missingHeader' }],
+        },
+
+        /* A docstring directly before code isn't a module header. */
+        {
+            code: [
+                '/*',
+                ' * A function.',
+                ' */',
+                'function foo() {}',
+            ].join('\n'),
+            errors: [{ messageId: 'missingHeader' }],
+        },
+
+        /* A license header alone isn't enough. */
+        {
+            code: [
+                '/*',
+                ' * Copyright (C) Beanbag, Inc.',
+                ' */',
+                '',
+                "'use strict';",
+            ].join('\n'),
+            errors: [{ messageId: 'missingHeader' }],
+        },
+
+        /* Exclusions are configurable. */
+        {
+            code: 'var a = 1;',
+            errors: [{ messageId: 'missingHeader' }],
+            filename: 'static/js/fooTests.js',
+            options: [{ exclude: [] }],
+        },
+    ],
+
+    valid: [
+        [
+            ...header,
+            "'use strict';",
+            '',
+            "import a from 'a';",
+        ].join('\n'),
+        [
+            ...header,
+            '',
+            'function foo() {}',
+        ].join('\n'),
+        [
+            '/**',
+            ' * A module.',
+            ' */',
+            "import a from 'a';",
+        ].join('\n'),
+        [
+            '#!/usr/bin/env node',
+            ...header,
+            'main();',
+        ].join('\n'),
+
+        /* Files with no code. */
+        '',
+        '// Nothing here.',
+
+        /* License headers. */
+        [
+            '/*!',
+            ' * @license MIT',
+            ' */',
+            '',
+            ...header,
+            "'use strict';",
+        ].join('\n'),
+        {
+            code: [
+                '// SPDX-License-Identifier: MIT',
+                ...header,
+                "'use strict';",
+            ].join('\n'),
+            options: [{ licensePattern: 'SPDX-License-Identifier' }],
+        },
+
+        /* Excluded files. */
+        {
+            code: 'var a = 1;',
+            filename: 'static/js/views/tests/fooViewTests.js',
+        },
+        {
+            code: 'var a = 1;',
+            filename: 'static/js/views/fooView.stories.tsx',
+        },
+        {
+            code: 'var a = 1;',
+            filename: 'rollup.config.js',
+        },
+        {
+            code: 'var a = 1;',
+            filename: 'src/generated/foo.js',
+            options: [{ exclude: ['src/generated/**'] }],
+        },
+    ],
+});
@@ -0,0 +1,264 @@
+/*
+ * Unit tests for the no-unescaped-html-interpolation rule.
+ */
+
+import * as typescriptParser from '@typescript-eslint/parser';
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/no-unescaped-html-interpolation';
+
+
+const ruleTester = new RuleTester();
+
+
+ruleTester.run('no-unescaped-html-interpolation', rule, {
+    invalid: [
+        /* Unescaped values. */
+        {
+            code: 'const html = `<span>${name}</span>`;',
+            errors: [{
+                data: {
+                    escaper: '_.escape',
+                },
+                messageId: 'unescaped',
+                suggestions: [{
+                    data: {
+                        escaper: '_.escape',
+                    },
+                    messageId: 'wrapInEscaper',
+                    output: 'const html = `<span>${_.escape(name)}</span>`;',
+                }],
+            }],
+        },
+        {
+            code: [
+                'const html = dedent`',
+                '    <li class="${cls}">',
+                '     ${this.model.get(\'label\')}',
+                '    </li>',
+                '`;',
+            ].join('\n'),
+            errors: [
+                {
+                    line: 2,
+                    messageId: 'unescaped',
+                    suggestions: [{
+                        messageId: 'wrapInEscaper',
+                        output: [
+                            'const html = dedent`',
+                            '    <li class="${_.escape(cls)}">',
+                            '     ${this.model.get(\'label\')}',
+                            '    </li>',
+                            '`;',
+                        ].join('\n'),
+                    }],
+                },
+                {
+                    line: 3,
+                    messageId: 'unescaped',
+                    suggestions: [{
+                        messageId: 'wrapInEscaper',
+                        output: [
+                            'const html = dedent`',
+                            '    <li class="${cls}">',
+                            '     ${_.escape(this.model.get(\'label\'))}',
+                            '    </li>',
+                            '`;',
+                        ].join('\n'),
+                    }],
+                },
+            ],
+        },
+
+        /* Conditionals with a non-literal branch. */
+        {
+            code: "const s = `<b>${a ? b : ''}</b>`;",
+            errors: [{
+                messageId: 'unescaped',
+                suggestions: [{
+                    messageId: 'wrapInEscaper',
+                    output: "const s = `<b>${_.escape(a ? b : '')}</b>`;",
+                }],
+            }],
+        },
+
+        /* Tags split across an interpolation. */
+        {
+            code: 'const s = `<${tag}>text</${tag}>`;',
+            errors: [
+                {
+                    messageId: 'unescaped',
+                    suggestions: [{
+                        messageId: 'wrapInEscaper',
+                        output: 'const s = `<${_.escape(tag)}>text</${tag}>`;',
+                    }],
+                },
+                {
+                    messageId: 'unescaped',
+                    suggestions: [{
+                        messageId: 'wrapInEscaper',
+                        output: 'const s = `<${tag}>text</${_.escape(tag)}>`;',
+                    }],
+                },
+            ],
+        },
+
+        /* Comments that don't mark a value as trusted. */
+        {
+            code: 'const s = `<p>${/* Later. */ x}</p>`;',
+            errors: [{
+                messageId: 'unescaped',
+                suggestions: [{
+                    messageId: 'wrapInEscaper',
+                    output: 'const s = `<p>${/* Later. */ _.escape(x)}</p>`;',
+                }],
+            }],
+        },
+
+        /* Custom escapers. */
+        {
+            code: [
+                'const a = `<p>${_.escape(text)}</p>`;',
+                'const b = `<p>${escapeHTML(text)}</p>`;',
+            ].join('\n'),
+            errors: [{
+                data: {
+                    escaper: 'escapeHTML',
+                },
+                line: 1,
+                messageId: 'unescaped',
+                suggestions: [{
+                    data: {
+                        escaper: 'escapeHTML',
+                    },
+                    messageId: 'wrapInEscaper',
+                    output: [
+                        'const a = `<p>${escapeHTML(_.escape(text))}</p>`;',
+                        'const b = `<p>${escapeHTML(text)}</p>`;',
+                    ].join('\n'),
+                }],
+            }],
+            options: [{
+                escapers: ['escapeHTML', 'Djblets.escapeHTML'],
+            }],
+        },
+
+        /* Nested dedent templates, and other tagged templates. */
+        {
+            code: [
+                'const html = dedent`',
+                '    <ul>${dedent`<li>${msg}</li>`}</ul>',
+                '`;',
+            ].join('\n'),
+            errors: [{
+                column: 24,
+                line: 2,
+                messageId: 'unescaped',
+                suggestions: [{
+                    messageId: 'wrapInEscaper',
+                    output: [
+                        'const html = dedent`',
+                        '    <ul>${dedent`<li>${_.escape(msg)}</li>`}</ul>',
+                        '`;',
+                    ].join('\n'),
+                }],
+            }],
+        },
+        {
+            code: 'const html = `<ul>${t`<li></li>`}</ul>`;',
+            errors: [{
+                column: 21,
+                messageId: 'unescaped',
+                suggestions: [{
+                    messageId: 'wrapInEscaper',
+                    output:
+                        'const html = `<ul>${_.escape(t`<li></li>`)}</ul>`;',
+                }],
+            }],
+        },
+
+        /* TypeScript. */
+        {
+            code: 'const s = `<b>${n as number}</b>`;',
+            errors: [{
+                messageId: 'unescaped',
+                suggestions: [{
+                    messageId: 'wrapInEscaper',
+                    output: 'const s = `<b>${_.escape(n as number)}</b>`;',
+                }],
+            }],
+            languageOptions: {
+                parser: typescriptParser,
+            },
+        },
+    ],
+
+    valid: [
+        {
+            code: [
+                'const html = dedent`',
+                '    <li class="${_.escape(cls)}">',
+                '     ${_.escape(this.model.get(\'label\'))}',
+                '    </li>',
+                '`;',
+            ].join('\n'),
+        },
+
+        /* Literals and conditionals choosing between them. */
+        {
+            code: [
+                "const a = `<div class=\"${'foo'}\">${42}</div>`;",
+                "const b = `<b>${isNew ? 'new' : ''}</b>`;",
+                'const c = `<i>${`static`}</i>`;',
+            ].join('\n'),
+        },
+
+        /* Nested HTML templates, which are checked on their own. */
+        {
+            code:
+                'const html = `<ul>${isEmpty ? `<li>${_.escape(msg)}</li>` ' +
+                ": ''}</ul>`;",
+        },
+
+        {
+            code: [
+                'const html = dedent`',
+                '    <ul>',
+                '     ${isEmpty ? dedent`',
+                '         <li>${_.escape(msg)}</li>',
+                "     ` : dedent`<li>${'none'}</li>`}",
+                '    </ul>',
+                '`;',
+            ].join('\n'),
+        },
+
+        /* Trusted values. */
+        {
+            code: [
+                'const a = `<div>${/* trusted */ this.renderedHTML}</div>`;',
+                'const b = `<div>${this.renderedHTML /* Trusted */}</div>`;',
+                'const c = `<div>${',
+                '    // trusted: built by the template above.',
+                '    itemsHTML',
+                '}</div>`;',
+            ].join('\n'),
+        },
+        {
+            code: 'const html = `<div>${/* safe */ this.renderedHTML}</div>`;',
+            options: [{
+                trustedPattern: '^\\s*safe\\b',
+            }],
+        },
+
+        /* Templates without HTML. */
+        {
+            code: [
+                'const a = `${count} items`;',
+                'const b = `${a < b} and ${c > d}`;',
+                'const c = `Use a <= b, or a < ${b}`;',
+                'const d = `<>${value}`;',
+                "const e = '<div>' + name + '</div>';",
+            ].join('\n'),
+        },
+    ],
+});
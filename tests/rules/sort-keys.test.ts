@@ -0,0 +1,245 @@
+/*
+ * Unit tests for the sort-keys rule.
+ */
+
+import * as typescriptParser from '@typescript-eslint/parser';
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/sort-keys';
+
+
+const ruleTester = new RuleTester();
+const groupOptions = ['asc', { allowLineSeparatedGroups: true }];
+
+
+ruleTester.run('sort-keys', rule, {
+    invalid: [
+        /* Basic sorting. */
+        {
+            code: 'var o = {b: 1, a: 2};',
+            errors: [{
+                data: {
+                    insensitive: '',
+                    natural: '',
+                    order: 'asc',
+                    prevName: 'b',
+                    thisName: 'a',
+                },
+                messageId: 'sortKeys',
+            }],
+            output: 'var o = {a: 2, b: 1};',
+        },
+        {
+            code: [
+                'var o = {',
+                '    c: 1,',
+                '    a: 2,',
+                '    b: 3',
+                '};',
+            ].join('\n'),
+            errors: [{ messageId: 'sortKeys' }],
+            output: [
+                'var o = {',
+                '    a: 2,',
+                '    b: 3,',
+                '    c: 1',
+                '};',
+            ].join('\n'),
+        },
+
+        /* Options. */
+        {
+            code: 'var o = {a: 1, b: 2};',
+            errors: [{ messageId: 'sortKeys' }],
+            options: ['desc'],
+            output: 'var o = {b: 2, a: 1};',
+        },
+        {
+            code: 'var o = {b: 1, A: 2, c: 3};',
+            errors: [{ messageId: 'sortKeys' }],
+            options: ['asc', { caseSensitive: false }],
+            output: 'var o = {A: 2, b: 1, c: 3};',
+        },
+        {
+            code: 'var o = {a10: 1, a2: 2};',
+            errors: [{ messageId: 'sortKeys' }],
+            options: ['asc', { natural: true }],
+            output: 'var o = {a2: 2, a10: 1};',
+        },
+
+        /* Groups are sorted independently. */
+        {
+            code: [
+                'var o = {',
+                '    b: 1,',
+                '    a: 2,',
+                '',
+                '    d: 3,',
+                '    c: 4,',
+                '};',
+            ].join('\n'),
+            errors: [
+                { messageId: 'sortKeys' },
+                { messageId: 'sortKeys' },
+            ],
+            options: groupOptions,
+            output: [
+                'var o = {',
+                '    a: 2,',
+                '    b: 1,',
+                '',
+                '    c: 4,',
+                '    d: 3,',
+                '};',
+            ].join('\n'),
+        },
+
+        /* Comments move with their properties. */
+        {
+            code: [
+                'var o = {',
+                '    /*',
+                '     * About b.',
+                '     */',
+                '    b: 1,',
+                '    // About a.',
+                '    a: 2, // Trailing a.',
+                '    c: 3',
+                '};',
+            ].join('\n'),
+            errors: [{ messageId: 'sortKeys' }],
+            options: groupOptions,
+            output: [
+                'var o = {',
+                '    // About a.',
+                '    a: 2, // Trailing a.',
+                '    /*',
+                '     * About b.',
+                '     */',
+                '    b: 1,',
+                '    c: 3',
+                '};',
+            ].join('\n'),
+        },
+        {
+            code: [
+                'var o = {',
+                '    b: 1,',
+                '    a: 2 // Trailing a.',
+                '};',
+            ].join('\n'),
+            errors: [{ messageId: 'sortKeys' }],
+            output: [
+                'var o = {',
+                '    a: 2, // Trailing a.',
+                '    b: 1',
+                '};',
+            ].join('\n'),
+        },
+
+        /* Spreads and computed keys act as barriers. */
+        {
+            code: 'var o = {b: 1, a: 2, ...x, d: 3, c: 4};',
+            errors: [
+                { messageId: 'sortKeys' },
+                { messageId: 'sortKeys' },
+            ],
+            output: 'var o = {a: 2, b: 1, ...x, c: 4, d: 3};',
+        },
+        {
+            code: 'var o = {b: 1, a: 2, [x]: 3, c: 4};',
+            errors: [{ messageId: 'sortKeys' }],
+            output: 'var o = {a: 2, b: 1, [x]: 3, c: 4};',
+        },
+
+        /* Methods, functions and i18n calls are safe to reorder. */
+        {
+            code: [
+                'var o = {',
+                '    render() {},',
+                '    label: gettext("Label"),',
+                '    initialize: function() {},',
+                '};',
+            ].join('\n'),
+            errors: [
+                { messageId: 'sortKeys' },
+                { messageId: 'sortKeys' },
+            ],
+            output: [
+                'var o = {',
+                '    initialize: function() {},',
+                '    label: gettext("Label"),',
+                '    render() {},',
+                '};',
+            ].join('\n'),
+        },
+
+        /* Values with side effects are not reordered. */
+        {
+            code: 'var o = {b: f(), a: g()};',
+            errors: [{ messageId: 'sortKeys' }],
+            output: null,
+        },
+        {
+            code: 'var o = {b: i++, a: 1};',
+            errors: [{ messageId: 'sortKeys' }],
+            output: null,
+        },
+
+        /* Comments that can't be attached to a property aren't moved. */
+        {
+            code: 'var o = {b: 1 /* b */, a: 2};',
+            errors: [{ messageId: 'sortKeys' }],
+            output: null,
+        },
+        {
+            code: [
+                'var o = {a: 1, c: 2, // Trailing c.',
+                '         b: 3};',
+            ].join('\n'),
+            errors: [{ messageId: 'sortKeys' }],
+            output: null,
+        },
+
+        /* TypeScript. */
+        {
+            code: 'const o = {b: 1 as number, a: x!};',
+            errors: [{ messageId: 'sortKeys' }],
+            languageOptions: {
+                parser: typescriptParser,
+            },
+            output: 'const o = {a: x!, b: 1 as number};',
+        },
+    ],
+
+    valid: [
+        'var o = {a: 1, b: 2, c: 3};',
+        'var o = {a: 1, ...x, b: 2};',
+        'var o = {b: 1, ...x, a: 2};',
+        'var o = {b: 1, [x]: 2, a: 3};',
+        'var {b, a} = o;',
+        {
+            code: [
+                'var o = {',
+                '    b: 1,',
+                '    c: 2,',
+                '',
+                '    a: 3,',
+                '};',
+            ].join('\n'),
+            options: groupOptions,
+        },
+        {
+            code: 'var o = {b: 1, a: 2};',
+            options: ['asc', { minKeys: 3 }],
+        },
+        {
+            code: 'var o = {a: 1, B: 2};',
+            options: ['asc', { caseSensitive: false }],
+        },
+        {
+            code: 'var o = {a2: 1, a10: 2};',
+            options: ['asc', { natural: true }],
+        },
+    ],
+});
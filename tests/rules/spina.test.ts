@@ -0,0 +1,245 @@
+/*
+ * Unit tests for the spina rule.
+ */
+
+import * as typescriptParser from '@typescript-eslint/parser';
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/spina';
+
+
+const ruleTester = new RuleTester({
+    languageOptions: {
+        parser: typescriptParser,
+    },
+});
+
+
+ruleTester.run('spina', rule, {
+    invalid: [
+        /* Missing decorators. */
+        {
+            code: [
+                'export class MyView extends BaseView {',
+                '}',
+            ].join('\n'),
+            errors: [{
+                data: {
+                    name: 'MyView',
+                },
+                messageId: 'missingDecorator',
+                suggestions: [{
+                    messageId: 'addDecorator',
+                    output: [
+                        '@spina',
+                        'export class MyView extends BaseView {',
+                        '}',
+                    ].join('\n'),
+                }],
+            }],
+        },
+        {
+            code: [
+                'function foo() {',
+                '    class MyModel extends BaseModel {}',
+                '',
+                '    return class extends MyModel {};',
+                '}',
+            ].join('\n'),
+            errors: [
+                {
+                    data: {
+                        name: 'MyModel',
+                    },
+                    line: 2,
+                    messageId: 'missingDecorator',
+                    suggestions: [{
+                        messageId: 'addDecorator',
+                        output: [
+                            'function foo() {',
+                            '    @spina',
+                            '    class MyModel extends BaseModel {}',
+                            '',
+                            '    return class extends MyModel {};',
+                            '}',
+                        ].join('\n'),
+                    }],
+                },
+                {
+                    data: {
+                        name: '(anonymous)',
+                    },
+                    line: 4,
+                    messageId: 'missingDecorator',
+                    suggestions: [{
+                        messageId: 'addDecorator',
+                        output: [
+                            'function foo() {',
+                            '    class MyModel extends BaseModel {}',
+                            '',
+                            '    return @spina class extends MyModel {};',
+                            '}',
+                        ].join('\n'),
+                    }],
+                },
+            ],
+        },
+
+        /* Subclasses of decorated classes. */
+        {
+            code: [
+                '@spina',
+                'class BaseResourceView extends RB.SomeView {}',
+                '',
+                'class MyView extends BaseResourceView {}',
+            ].join('\n'),
+            errors: [{
+                data: {
+                    name: 'MyView',
+                },
+                line: 4,
+                messageId: 'missingDecorator',
+                suggestions: [{
+                    messageId: 'addDecorator',
+                    output: [
+                        '@spina',
+                        'class BaseResourceView extends RB.SomeView {}',
+                        '',
+                        '@spina',
+                        'class MyView extends BaseResourceView {}',
+                    ].join('\n'),
+                }],
+            }],
+        },
+
+        /* Non-static attributes. */
+        {
+            code: [
+                '@spina',
+                'class MyView extends BaseView {',
+                "    className = 'my-view';",
+                "    tagName = 'span';",
+                '}',
+            ].join('\n'),
+            errors: [
+                {
+                    data: {
+                        name: 'className',
+                    },
+                    line: 3,
+                    messageId: 'nonStaticAttribute',
+                },
+                {
+                    data: {
+                        name: 'tagName',
+                    },
+                    line: 4,
+                    messageId: 'nonStaticAttribute',
+                },
+            ],
+        },
+        {
+            code: [
+                '@spina({',
+                "    prototypeAttrs: ['defaults'],",
+                '})',
+                'class MyModel extends Spina.BaseModel {',
+                '    defaults = {};',
+                '}',
+            ].join('\n'),
+            errors: [{
+                data: {
+                    name: 'defaults',
+                },
+                messageId: 'nonStaticAttribute',
+            }],
+            options: [{
+                baseClasses: ['Spina.BaseModel'],
+            }],
+        },
+
+        /* Custom attributes. */
+        {
+            code: [
+                '@spina',
+                'class MyModel extends BaseModel {',
+                "    idAttribute = 'name';",
+                '}',
+            ].join('\n'),
+            errors: [{
+                data: {
+                    name: 'idAttribute',
+                },
+                messageId: 'nonStaticAttribute',
+            }],
+            options: [{
+                staticAttributes: ['idAttribute'],
+            }],
+        },
+    ],
+
+    valid: [
+        {
+            code: [
+                '@spina',
+                'export class MyView extends BaseView {',
+                "    static className = 'my-view';",
+                '    static events = {',
+                "        'click': '_onClick',",
+                '    };',
+                '',
+                '    _onClick() {}',
+                '}',
+            ].join('\n'),
+        },
+
+        /* Methods, which are already on the prototype. */
+        {
+            code: [
+                '@spina',
+                'class MyView extends BaseView {',
+                '    className() {',
+                "        return 'my-view';",
+                '    }',
+                '',
+                '    events() {',
+                '        return {};',
+                '    }',
+                '}',
+            ].join('\n'),
+        },
+        {
+            code: [
+                '@spina({',
+                "    automergeAttrs: ['events'],",
+                '})',
+                'class MyView extends BaseView<MyModel> {',
+                '    static defaults() {',
+                '        return {};',
+                '    }',
+                '}',
+            ].join('\n'),
+        },
+
+        /* Classes that aren't Spina classes. */
+        {
+            code: [
+                'class Foo extends Bar {',
+                "    className = 'foo';",
+                '}',
+                '',
+                'class Baz {',
+                "    tagName = 'div';",
+                '}',
+            ].join('\n'),
+        },
+        {
+            code: [
+                'class MyView extends BaseView {}',
+            ].join('\n'),
+            options: [{
+                baseClasses: ['Spina.BaseView'],
+            }],
+        },
+    ],
+});
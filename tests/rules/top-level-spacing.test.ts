@@ -0,0 +1,268 @@
+/*
+ * Unit tests for the top-level-spacing rule.
+ */
+
+import * as typescriptParser from '@typescript-eslint/parser';
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/top-level-spacing';
+
+
+const ruleTester = new RuleTester();
+
+
+ruleTester.run('top-level-spacing', rule, {
+    invalid: [
+        /* Declarations. */
+        {
+            code: [
+                'function foo() {}',
+                'function bar() {}',
+            ].join('\n'),
+            errors: [{
+                data: {
+                    actual: '0',
+                    expected: '2',
+                },
+                line: 1,
+                messageId: 'blankLines',
+            }],
+            output: [
+                'function foo() {}',
+                '',
+                '',
+                'function bar() {}',
+            ].join('\n'),
+        },
+        {
+            code: [
+                'const a = 1;',
+                '',
+                'class Foo {}',
+                '',
+                '',
+                '',
+                'foo();',
+            ].join('\n'),
+            errors: [
+                {
+                    data: {
+                        actual: '1',
+                        expected: '2',
+                    },
+                    messageId: 'blankLines',
+                },
+                {
+                    data: {
+                        actual: '3',
+                        expected: '2',
+                    },
+                    messageId: 'blankLines',
+                },
+            ],
+            output: [
+                'const a = 1;',
+                '',
+                '',
+                'class Foo {}',
+                '',
+                '',
+                'foo();',
+            ].join('\n'),
+        },
+        {
+            code: [
+                'const a = 1;',
+                '',
+                'const b = 2;',
+            ].join('\n'),
+            errors: [{ messageId: 'blankLines' }],
+            output: [
+                'const a = 1;',
+                '',
+                '',
+                'const b = 2;',
+            ].join('\n'),
+        },
+
+        /* Blank lines are counted up to leading comments. */
+        {
+            code: [
+                'function foo() {} // Trailing.',
+                '',
+                '/*',
+                ' * About bar.',
+                ' */',
+                'function bar() {}',
+            ].join('\n'),
+            errors: [{ messageId: 'blankLines' }],
+            output: [
+                'function foo() {} // Trailing.',
+                '',
+                '',
+                '/*',
+                ' * About bar.',
+                ' */',
+                'function bar() {}',
+            ].join('\n'),
+        },
+
+        /* Module header and imports. */
+        {
+            code: [
+                '/*',
+                ' * A module.',
+                ' */',
+                "'use strict';",
+                "import a from 'a';",
+                'const b = a;',
+            ].join('\n'),
+            errors: [
+                {
+                    data: {
+                        actual: '0',
+                        expected: '1',
+                    },
+                    line: 3,
+                    messageId: 'afterHeader',
+                },
+                {
+                    line: 4,
+                    messageId: 'afterHeader',
+                },
+                {
+                    data: {
+                        actual: '0',
+                        expected: '2',
+                    },
+                    line: 5,
+                    messageId: 'afterImports',
+                },
+            ],
+            output: [
+                '/*',
+                ' * A module.',
+                ' */',
+                '',
+                "'use strict';",
+                '',
+                "import a from 'a';",
+                '',
+                '',
+                'const b = a;',
+            ].join('\n'),
+        },
+        {
+            code: [
+                "import a from 'a';",
+                '',
+                'const b = a;',
+            ].join('\n'),
+            errors: [{ messageId: 'afterImports' }],
+            options: [{ afterImports: 0 }],
+            output: [
+                "import a from 'a';",
+                'const b = a;',
+            ].join('\n'),
+        },
+        {
+            code: [
+                '/*',
+                ' * A module.',
+                ' */',
+                '',
+                '',
+                "import a from 'a';",
+            ].join('\n'),
+            errors: [{ messageId: 'afterHeader' }],
+            output: [
+                '/*',
+                ' * A module.',
+                ' */',
+                '',
+                "import a from 'a';",
+            ].join('\n'),
+        },
+
+        /* TypeScript. */
+        {
+            code: [
+                'interface Foo {}',
+                'type Bar = Foo;',
+            ].join('\n'),
+            errors: [{ messageId: 'blankLines' }],
+            languageOptions: {
+                parser: typescriptParser,
+            },
+            output: [
+                'interface Foo {}',
+                '',
+                '',
+                'type Bar = Foo;',
+            ].join('\n'),
+        },
+    ],
+
+    valid: [
+        [
+            '/*',
+            ' * A module.',
+            ' */',
+            '',
+            "'use strict';",
+            '',
+            "import a from 'a';",
+            "import b from 'b';",
+            '',
+            '',
+            'const c = 1;',
+            'export const d = 2;',
+            '',
+            '',
+            '/*',
+            ' * A function.',
+            ' */',
+            'export function foo() {}',
+            '',
+            '',
+            'foo();',
+            'foo();',
+        ].join('\n'),
+
+        /* A docstring at the start of the file isn't a module header. */
+        [
+            '/*',
+            ' * A function.',
+            ' */',
+            'function foo() {}',
+        ].join('\n'),
+
+        /* Declarations on the same line aren't checked. */
+        'var a = 1; function foo() {}',
+
+        {
+            code: [
+                'function foo() {}',
+                '',
+                'function bar() {}',
+            ].join('\n'),
+            options: [{ blankLines: 1 }],
+        },
+
+        /* TypeScript. */
+        {
+            code: [
+                "'use strict';",
+                '',
+                "import a from 'a';",
+                '',
+                '',
+                'foo();',
+                'bar();',
+            ].join('\n'),
+            languageOptions: {
+                parser: typescriptParser,
+            },
+        },
+    ],
+});
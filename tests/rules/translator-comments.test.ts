@@ -0,0 +1,139 @@
+/*
+ * Unit tests for the translator-comments rule.
+ */
+
+import { RuleTester } from 'eslint';
+
+import rule from '../../src/rules/translator-comments';
+
+
+const ruleTester = new RuleTester();
+
+
+ruleTester.run('translator-comments', rule, {
+    invalid: [
+        /* Missing comments. */
+        {
+            code: "var s = gettext('%s of %s');",
+            errors: [{
+                data: { name: 'gettext' },
+                messageId: 'missingForPlaceholders',
+            }],
+        },
+        {
+            code: "var s = gettext('%(count)s files');",
+            errors: [{ messageId: 'missingForPlaceholders' }],
+        },
+        {
+            code: "var s = ngettext('One file', '%s files', n);",
+            errors: [{
+                data: { name: 'ngettext' },
+                messageId: 'missingForPlaceholders',
+            }],
+        },
+        {
+            code: "var s = pgettext('files', '%s files');",
+            errors: [{ messageId: 'missingForPlaceholders' }],
+        },
+        {
+            code: "var s = gettext('Close');",
+            errors: [{
+                data: { name: 'gettext' },
+                messageId: 'missingForShortString',
+            }],
+        },
+        {
+            code: "var s = gettext('Close dialog');",
+            errors: [{ messageId: 'missingForShortString' }],
+            options: [{ maxShortWords: 2 }],
+        },
+        {
+            code: [
+                '/* Not a translator comment. */',
+                "var s = gettext('Close');",
+            ].join('\n'),
+            errors: [{ messageId: 'missingForShortString' }],
+        },
+        {
+            code: [
+                "var s = gettext('Close');",
+                '/* Translators: After the call. */',
+            ].join('\n'),
+            errors: [
+                { messageId: 'missingForShortString' },
+                { messageId: 'strayComment' },
+            ],
+        },
+
+        /* Stray comments. */
+        {
+            code: [
+                '/* Translators: Separated by a blank line. */',
+                '',
+                "var s = gettext('Close');",
+            ].join('\n'),
+            errors: [
+                { messageId: 'strayComment' },
+                { messageId: 'missingForShortString' },
+            ],
+        },
+        {
+            code: [
+                '// Translators: Not on a gettext call.',
+                'var s = label;',
+            ].join('\n'),
+            errors: [{ messageId: 'strayComment' }],
+        },
+        {
+            code: [
+                '/* Translators: Shadowed by a local function. */',
+                'function f(gettext) { gettext("Close"); }',
+            ].join('\n'),
+            errors: [{ messageId: 'strayComment' }],
+        },
+    ],
+
+    valid: [
+        "var s = gettext('Save changes');",
+        "var s = gettext('100%% done');",
+        "var s = gettext('');",
+        "var s = pgettext('verb', 'Close');",
+        "var s = npgettext('files', 'One file', 'All files', n);",
+        {
+            code: "var s = gettext('Close');",
+            options: [{ maxShortWords: 0 }],
+        },
+
+        /* Attached comments. */
+        [
+            '/* Translators: The "Close" button on a dialog. */',
+            "var s = gettext('Close');",
+        ].join('\n'),
+        [
+            '// Translators: The current page and total number of pages.',
+            "var s = interpolate(gettext('%s of %s'), [page, total]);",
+        ].join('\n'),
+        [
+            '/*',
+            ' * Translators: A count of files, shown in the file list.',
+            ' */',
+            "var s = ngettext('%s file', '%s files', n);",
+        ].join('\n'),
+        "var s = /* Translators: A button. */ gettext('Close');",
+        [
+            'var o = {',
+            '    /* Translators: A button. */',
+            "    label: gettext('Close'),",
+            '};',
+        ].join('\n'),
+        [
+            'f(',
+            '    a,',
+            '    /* Translators: A button. */',
+            "    gettext('Close'));",
+        ].join('\n'),
+
+        /* Local functions aren't checked. */
+        "function gettext(s) { return s; } gettext('Close');",
+    ],
+});